@@ -0,0 +1,32 @@
+import type { History } from './History';
+
+export interface AutosuggestProvider {
+  suggest(
+    input: string,
+    signal: AbortSignal
+  ): string | null | Promise<string | null>;
+}
+
+/**
+ * Autosuggest provider that suggests the most recent history item starting w/
+ * the input.
+ */
+export class HistoryAutosuggestProvider implements AutosuggestProvider {
+  private history: History;
+
+  constructor(history: History) {
+    this.history = history;
+  }
+
+  suggest(input: string): string | null {
+    const items = this.history.items;
+
+    for (let i = items.length - 1; i >= 0; i--) {
+      if (items[i].startsWith(input) && items[i] !== input) {
+        return items[i];
+      }
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,260 @@
+import type { TabCompleteContext, TabCompleteItem } from './Utils';
+
+export type CommandSpecSuggestion = string | TabCompleteItem;
+
+export type CommandSpecGenerator = (
+  context: TabCompleteContext
+) => CommandSpecSuggestion[] | Promise<CommandSpecSuggestion[]>;
+
+export interface CommandSpecArg {
+  description?: string;
+  generator?: CommandSpecGenerator;
+  name?: string;
+  suggestions?: CommandSpecSuggestion[];
+  variadic?: boolean;
+}
+
+export interface CommandSpecOption {
+  args?: CommandSpecArg;
+  description?: string;
+  name: string | string[];
+  repeatable?: boolean;
+}
+
+export interface CommandSpec {
+  args?: CommandSpecArg | CommandSpecArg[];
+  description?: string;
+  name: string | string[];
+  options?: CommandSpecOption[];
+  subcommands?: CommandSpec[];
+}
+
+interface CommandSpecState {
+  args: number;
+  option: CommandSpecOption | null;
+  options: Set<CommandSpecOption>;
+  spec: CommandSpec;
+}
+
+/**
+ * Get array of names for defined command or option, aliases included.
+ *
+ * @param spec Command or option spec.
+ */
+function getNames(spec: CommandSpec | CommandSpecOption) {
+  return Array.isArray(spec.name) ? spec.name : [spec.name];
+}
+
+/**
+ * Get option matching defined argument, if any.
+ *
+ * @param spec Command spec.
+ * @param arg  Argument, w/o any `=value`.
+ */
+function getOption(spec: CommandSpec, arg: string) {
+  return spec.options?.find((e) => getNames(e).includes(arg));
+}
+
+/**
+ * Get positional argument spec for defined argument index -- the last
+ * argument is used for any further arguments if variadic.
+ *
+ * @param spec  Command spec.
+ * @param index Positional argument index.
+ */
+function getArg(spec: CommandSpec, index: number) {
+  const args = spec.args ? ([] as CommandSpecArg[]).concat(spec.args) : [];
+  const last = args[args.length - 1];
+
+  return index >= args.length && last?.variadic ? last : args[index];
+}
+
+/**
+ * Get suggestions for defined argument spec.
+ *
+ * @param arg     Argument spec.
+ * @param context Tab complete context.
+ */
+async function getArgSuggestions(
+  arg: CommandSpecArg | undefined,
+  context: TabCompleteContext
+): Promise<TabCompleteItem[]> {
+  const suggestions = [
+    ...(arg?.suggestions ?? []),
+    ...((await arg?.generator?.(context)) ?? []),
+  ];
+
+  return suggestions.map((e) => (typeof e === 'string' ? { label: e } : e));
+}
+
+/**
+ * Get suggestions for options of defined command that haven't been used,
+ * unless repeatable.
+ *
+ * @param state Command spec state.
+ */
+function getOptionSuggestions(state: CommandSpecState): TabCompleteItem[] {
+  return (state.spec.options ?? [])
+    .filter((e) => e.repeatable || !state.options.has(e))
+    .flatMap((option) => {
+      return getNames(option).map((name) => {
+        const item: TabCompleteItem = {
+          description: option.description,
+          kind: 'flag',
+          label: name,
+        };
+
+        // Long options w/ values are completed as `--name=`.
+        if (option.args && name.startsWith('--')) {
+          item.insertText = name + '=';
+          item.noSpace = true;
+        }
+
+        return item;
+      });
+    });
+}
+
+/**
+ * Walk arguments before the one under the cursor, and get the (sub)command
+ * spec, used options, and positional argument index for it.
+ *
+ * @param spec Command spec.
+ * @param args Arguments before the one under the cursor, w/o command name.
+ */
+function getState(spec: CommandSpec, args: string[]) {
+  const state: CommandSpecState = {
+    args: 0,
+    option: null,
+    options: new Set(),
+    spec,
+  };
+
+  let options = true;
+
+  for (const arg of args) {
+    // Option value.
+    if (state.option) {
+      state.option = null;
+
+      continue;
+    }
+
+    // End of options.
+    if (arg === '--' && options) {
+      options = false;
+
+      continue;
+    }
+
+    if (arg.startsWith('-') && arg.length > 1 && options) {
+      const [name, value] = arg.split(/=(.*)/s);
+      const option = getOption(state.spec, name);
+
+      // If option found, wait for value if needed...
+      if (option) {
+        state.options.add(option);
+        state.option = option.args && value === undefined ? option : null;
+
+        // ...else, check for combined short options (e.g. `-abc`).
+      } else if (/^-[^-]{2,}$/.test(arg)) {
+        for (const char of arg.substring(1)) {
+          const short = getOption(state.spec, '-' + char);
+
+          if (short) {
+            state.options.add(short);
+          }
+        }
+      }
+
+      continue;
+    }
+
+    const subcommand = state.spec.subcommands?.find((e) => {
+      return getNames(e).includes(arg);
+    });
+
+    // If subcommand found, continue w/ its spec...
+    if (subcommand && state.args === 0) {
+      state.options = new Set();
+      state.spec = subcommand;
+
+      // ...else, count positional argument.
+    } else {
+      state.args += 1;
+    }
+  }
+
+  return state;
+}
+
+/**
+ * Get tab complete suggestions for defined command spec -- subcommands and
+ * positional arguments, or options if the fragment starts w/ `-`.
+ *
+ * @param spec    Command spec.
+ * @param context Tab complete context.
+ */
+export async function getCommandSpecSuggestions(
+  spec: CommandSpec,
+  context: TabCompleteContext
+): Promise<TabCompleteItem[]> {
+  const { args, fragment, index } = context;
+
+  // If command name, suggest it.
+  if (index === 0) {
+    return getNames(spec).map((name) => {
+      return { description: spec.description, kind: 'command', label: name };
+    });
+  }
+
+  if (!getNames(spec).includes(args[0])) {
+    return [];
+  }
+
+  const state = getState(spec, args.slice(1, index));
+
+  // If option value expected, suggest values for it.
+  if (state.option) {
+    return getArgSuggestions(state.option.args, context);
+  }
+
+  // If `--name=value` fragment, suggest values for the option.
+  const match = fragment.match(/^(--?[^=]+)=/);
+
+  if (match) {
+    const option = getOption(state.spec, match[1]);
+    const values = await getArgSuggestions(option?.args, context);
+
+    return values.map((e) => {
+      return { ...e, insertText: match[0] + (e.insertText ?? e.label) };
+    });
+  }
+
+  const options = getOptionSuggestions(state);
+
+  if (fragment.startsWith('-')) {
+    return options;
+  }
+
+  const suggestions = await getArgSuggestions(
+    getArg(state.spec, state.args),
+    context
+  );
+
+  // Subcommands are only suggested before positional arguments.
+  if (state.args === 0) {
+    state.spec.subcommands?.forEach((subcommand) => {
+      getNames(subcommand).forEach((name) => {
+        suggestions.push({
+          description: subcommand.description,
+          kind: 'command',
+          label: name,
+        });
+      });
+    });
+  }
+
+  // If no subcommands or positional arguments, suggest options.
+  return suggestions.length ? suggestions : options;
+}
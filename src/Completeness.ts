@@ -0,0 +1,133 @@
+import { hasIncompleteChars } from './Utils';
+
+export type InputCompleteCallback = (
+  input: string
+) => boolean | Promise<boolean>;
+
+interface ScanResult {
+  brackets: string[];
+  end: number;
+  quote: string | null;
+}
+
+// Closing brackets, keyed by opening bracket.
+const BRACKETS: Record<string, string> = { '(': ')', '[': ']', '{': '}' };
+
+/**
+ * Scan defined input for open brackets and quotes, and the end offset of the
+ * last character outside line comments -- characters in quotes are skipped,
+ * and quotes can be escaped w/ `\`.
+ *
+ * @param input   Input string.
+ * @param quotes  Quote characters.
+ * @param comment Line comment prefix, if any.
+ */
+function scan(input: string, quotes: string, comment: string | null) {
+  const result: ScanResult = { brackets: [], end: 0, quote: null };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input.charAt(i);
+
+    if (result.quote || !/\s/.test(char)) {
+      result.end = i + 1;
+    }
+
+    // If in quotes, skip escaped characters and wait for the closing quote...
+    if (result.quote) {
+      if (char === '\\') {
+        i++;
+      } else if (char === result.quote) {
+        result.quote = null;
+      }
+
+      // ...else, skip line comments.
+    } else if (comment && input.startsWith(comment, i)) {
+      const end = input.indexOf('\n', i);
+
+      result.end = i;
+      i = end === -1 ? input.length : end;
+    } else if (quotes.includes(char)) {
+      result.quote = char;
+    } else if (BRACKETS[char]) {
+      result.brackets.push(BRACKETS[char]);
+    } else if (Object.values(BRACKETS).includes(char)) {
+      // Mismatched brackets are left for the interpreter to report.
+      if (result.brackets.pop() !== char) {
+        result.brackets = [];
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Check if defined shell input is complete -- no open quotes, substitutions,
+ * groups, or heredocs, and no trailing operator or backslash.
+ *
+ * @param input Input string.
+ */
+export function isShellComplete(input: string): boolean {
+  return !hasIncompleteChars(input);
+}
+
+/**
+ * Check if defined input has balanced brackets and closed quotes, e.g. for
+ * JavaScript or JSON -- `//` line comments are skipped.
+ *
+ * @param input Input string.
+ */
+export function isBracketsComplete(input: string): boolean {
+  const { brackets, quote } = scan(input, `"'\``, '//');
+
+  return !brackets.length && !quote;
+}
+
+/**
+ * Check if defined input is a complete block of indented code, e.g. for
+ * Python -- an input that opens a block (ends a line w/ `:`) continues until
+ * an empty line is entered.
+ *
+ * @param input Input string.
+ */
+export function isIndentComplete(input: string): boolean {
+  const { brackets, quote } = scan(input, `"'`, '#');
+
+  if (brackets.length || quote) {
+    return false;
+  }
+
+  const lines = input.split('\n');
+
+  // Blocks are opened by lines ending w/ `:`, outside brackets.
+  const block = lines.some((line, i) => {
+    const state = scan(lines.slice(0, i + 1).join('\n'), `"'`, '#');
+
+    return !state.brackets.length && /:\s*(#.*)?$/.test(line);
+  });
+
+  // If input opens a block, wait for an empty line.
+  if (block) {
+    return lines.length > 1 && lines[lines.length - 1].trim() === '';
+  }
+
+  return true;
+}
+
+/**
+ * Create completeness callback for input ending w/ defined terminator, e.g.
+ * `;` for SQL -- terminators in quotes or line comments are ignored.
+ *
+ * @param terminator Terminator string.
+ * @param comment    Line comment prefix, if any.
+ */
+export function createTerminatorComplete(
+  terminator = ';',
+  comment: string | null = '--'
+): InputCompleteCallback {
+  return (input: string) => {
+    const { end, quote } = scan(input, `"'`, comment);
+
+    return !quote && input.substring(0, end).trimEnd().endsWith(terminator);
+  };
+}
@@ -0,0 +1,76 @@
+import { parseShell } from './ShellParser';
+
+export type Highlighter = (input: string) => string;
+
+export type ShellTokenStyle =
+  | 'command'
+  | 'flag'
+  | 'operator'
+  | 'string'
+  | 'unknown';
+
+export interface ShellHighlighterOptions {
+  commands: string[] | ((name: string) => boolean) | null;
+  styles: Partial<Record<ShellTokenStyle, string>>;
+}
+
+const SHELL_STYLES: Record<ShellTokenStyle, string> = {
+  command: '\x1B[32m',
+  flag: '\x1B[36m',
+  operator: '\x1B[1m',
+  string: '\x1B[33m',
+  unknown: '\x1B[31m',
+};
+
+/**
+ * Create highlighter for shell-like input -- command names are green (or red
+ * if not a known command), quoted arguments yellow, flags cyan, and control
+ * operators bold. Input is split w/ `parseShell`, as the `shell-quote` parser
+ * doesn't keep the offsets needed to style the input as typed.
+ *
+ * @param options Highlighter options.
+ */
+export function createShellHighlighter(
+  options?: Partial<ShellHighlighterOptions>
+): Highlighter {
+  const commands = options?.commands ?? null;
+  const styles = { ...SHELL_STYLES, ...options?.styles };
+
+  const isCommand = (name: string) => {
+    if (commands === null) {
+      return true;
+    }
+
+    return Array.isArray(commands) ? commands.includes(name) : commands(name);
+  };
+
+  return (input: string) => {
+    let command = true;
+    let offset = 0;
+    let output = '';
+
+    for (const token of parseShell(input).tokens) {
+      const raw = input.substring(token.start, token.end);
+
+      let style: ShellTokenStyle | null = null;
+
+      if (token.operator) {
+        command = true;
+        style = 'operator';
+      } else if (command) {
+        command = false;
+        style = isCommand(token.value) ? 'command' : 'unknown';
+      } else if (/['"]/.test(raw)) {
+        style = 'string';
+      } else if (raw.startsWith('-')) {
+        style = 'flag';
+      }
+
+      output += input.substring(offset, token.start);
+      output += style ? styles[style] + raw + '\x1B[0m' : raw;
+      offset = token.end;
+    }
+
+    return output + input.substring(offset);
+  };
+}
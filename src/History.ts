@@ -1,29 +1,153 @@
+import type { HistoryStorage } from './HistoryStorage';
+
+export type HistoryControl =
+  | 'erasedups'
+  | 'ignoreboth'
+  | 'ignoredups'
+  | 'ignorespace';
+
+export interface HistoryOptions {
+  control: HistoryControl[];
+  ignore: (string | RegExp)[];
+  storage: HistoryStorage | null;
+}
+
+/**
+ * Convert glob pattern to a regular expression matching the whole input.
+ *
+ * @param pattern Glob pattern, w/ support for `*`, `?`, and `[...]`.
+ */
+function getGlobRegExp(pattern: string) {
+  const source = pattern.replace(
+    /\\(.)|(\*)|(\?)|(\[!?[^\]]*\])|([.+^${}()|\\\/])/g,
+    (match, escaped, star, question, range, special) => {
+      if (escaped) return '\\' + escaped;
+      if (star) return '.*';
+      if (question) return '.';
+      if (range) return range.replace(/^\[!/, '[^');
+
+      return '\\' + special;
+    }
+  );
+
+  return new RegExp(`^${source}$`);
+}
+
 export class History {
+  private control: Set<HistoryControl>;
+  private draft: string | undefined;
+  private edits = new Map<number, string>();
+  private ignore: RegExp[];
   private index = 0;
   private itemsMax: number;
+  private queue: Promise<void> = Promise.resolve();
+  private storage: HistoryStorage | null;
+  private unsaved: string[] = [];
 
   public items: string[] = [];
 
-  constructor(size: number) {
+  constructor(size: number, options?: Partial<HistoryOptions>) {
+    this.control = new Set(options?.control ?? ['ignoredups']);
+    this.ignore = (options?.ignore ?? []).map((e) => {
+      return typeof e === 'string' ? getGlobRegExp(e) : e;
+    });
     this.itemsMax = size;
+    this.storage = options?.storage ?? null;
+
+    if (this.control.has('ignoreboth')) {
+      this.control.add('ignoredups');
+      this.control.add('ignorespace');
+    }
+
+    this.load();
   }
 
   /**
-   * Get previous history item.
+   * Remove all history items, including stored items.
    */
-  getPrev(): string {
-    this.index = Math.max(0, this.index - 1);
+  clear(): Promise<void> {
+    this.items = [];
+    this.unsaved = [];
+
+    this.reset();
 
-    return this.items[this.index];
+    return this.enqueue(async (storage) => {
+      await storage.clear();
+    });
   }
 
   /**
-   * Get next history item.
+   * Get previous history item, optionally starting w/ defined prefix -- if
+   * current input defined, it's kept as an edit of the current item, or as
+   * the draft if past the last item.
+   *
+   * @param prefix  Item prefix string.
+   * @param current Current input string.
    */
-  getNext(): string {
-    this.index = Math.min(this.items.length, this.index + 1);
+  getPrev(prefix = '', current?: string): string | undefined {
+    this.saveEdit(current);
+
+    for (let i = this.index - 1; i >= 0; i--) {
+      if (this.items[i].startsWith(prefix)) {
+        this.index = i;
 
-    return this.items[this.index];
+        return this.edits.get(i) ?? this.items[i];
+      }
+    }
+  }
+
+  /**
+   * Get next history item, optionally starting w/ defined prefix -- returns
+   * the draft past the last item.
+   *
+   * @param prefix  Item prefix string.
+   * @param current Current input string.
+   */
+  getNext(prefix = '', current?: string): string | undefined {
+    const browsing = this.isBrowsing();
+
+    this.saveEdit(current);
+
+    for (let i = this.index + 1; i < this.items.length; i++) {
+      if (this.items[i].startsWith(prefix)) {
+        this.index = i;
+
+        return this.edits.get(i) ?? this.items[i];
+      }
+    }
+
+    this.rewind();
+
+    return browsing ? this.draft : undefined;
+  }
+
+  /**
+   * Check if a history item, rather than the draft, is current.
+   */
+  isBrowsing(): boolean {
+    return this.index < this.items.length;
+  }
+
+  /**
+   * Load history items from storage, merging items added by other terminals
+   * sharing the same storage.
+   */
+  load(): Promise<void> {
+    return this.enqueue(async (storage) => {
+      const items = await storage.load();
+      const browsing = this.isBrowsing();
+
+      // Keep items added since loading started, they're not stored yet.
+      this.items = this.applyControl(items.concat(this.unsaved)).slice(
+        -this.itemsMax
+      );
+
+      if (browsing) {
+        this.index = Math.min(this.index, this.items.length);
+      } else {
+        this.rewind();
+      }
+    });
   }
 
   /**
@@ -33,26 +157,146 @@ export class History {
    */
   push(input: string): void {
     if (input.trim() === '') {
+      this.reset();
+
       return;
     }
 
     const prevItem = this.items[this.items.length - 1];
+    const ignored =
+      (this.control.has('ignorespace') && input.startsWith(' ')) ||
+      (this.control.has('ignoredups') && input === prevItem) ||
+      this.ignore.some((e) => e.test(input));
+
+    if (!ignored) {
+      // Remove previous duplicate item(s).
+      if (this.control.has('erasedups')) {
+        this.items = this.items.filter((e) => e !== input);
+      }
 
-    if (input !== prevItem) {
       this.items.push(input);
 
       if (this.items.length > this.itemsMax) {
         this.items.shift();
       }
+
+      this.save(input);
     }
 
+    this.reset();
+  }
+
+  /**
+   * Discard draft and edits of history items, and set index to last item.
+   */
+  reset(): void {
+    this.draft = undefined;
+    this.edits.clear();
+
     this.rewind();
   }
 
+  /**
+   * Search history items for defined query, returning index of the first
+   * matching item or -1 if no match found.
+   *
+   * @param query   Search query string.
+   * @param start   Index to start search from.
+   * @param reverse Search from newer to older items.
+   */
+  search(query: string, start: number, reverse = true): number {
+    const step = reverse ? -1 : 1;
+
+    for (let i = start; i >= 0 && i < this.items.length; i += step) {
+      if (this.items[i].includes(query)) {
+        return i;
+      }
+    }
+
+    return -1;
+  }
+
   /**
    * Set index to last item.
    */
   rewind(): void {
     this.index = this.items.length;
   }
+
+  /**
+   * Remove duplicate items w/ respect to history control options.
+   *
+   * @param items Array of history items.
+   */
+  private applyControl(items: string[]) {
+    // Keep only the last of duplicate items...
+    if (this.control.has('erasedups')) {
+      return items.filter((e, i) => items.lastIndexOf(e) === i);
+    }
+
+    // ...else, remove consecutive duplicate items.
+    if (this.control.has('ignoredups')) {
+      return items.filter((e, i) => e !== items[i - 1]);
+    }
+
+    return items;
+  }
+
+  /**
+   * Keep defined input as an edit of the current item, or as the draft if
+   * past the last item.
+   *
+   * @param current Current input string.
+   */
+  private saveEdit(current?: string) {
+    if (current === undefined) {
+      return;
+    }
+
+    if (this.index >= this.items.length) {
+      this.draft = current;
+    } else if (current !== this.items[this.index]) {
+      this.edits.set(this.index, current);
+    } else {
+      this.edits.delete(this.index);
+    }
+  }
+
+  /**
+   * Run storage operation after any pending operation(s) complete.
+   *
+   * @param callback Storage operation function.
+   */
+  private enqueue(callback: (storage: HistoryStorage) => Promise<void>) {
+    const storage = this.storage;
+
+    if (storage === null) {
+      return this.queue;
+    }
+
+    this.queue = this.queue
+      .then(() => callback(storage))
+      .catch((error) => console.error('History storage error:', error));
+
+    return this.queue;
+  }
+
+  /**
+   * Append item to storage.
+   *
+   * @param input Input string.
+   */
+  private save(input: string) {
+    if (this.storage === null) {
+      return;
+    }
+
+    this.unsaved.push(input);
+
+    this.enqueue(async (storage) => {
+      await storage.append(input);
+
+      this.unsaved.shift();
+    });
+  }
 }
@@ -0,0 +1,133 @@
+export class HistoryExpansionError extends Error {
+  public event: string;
+
+  constructor(event: string, reason = 'event not found') {
+    super(`${event}: ${reason}`);
+
+    this.event = event;
+    this.name = 'HistoryExpansionError';
+  }
+}
+
+// Characters that end a `!prefix` event designator.
+const EVENT_END_REGEX = /[\s;&|()<>"'`]/;
+
+// Characters that prevent expansion when following `!`.
+const EVENT_SKIP_REGEX = /[\s=(]/;
+
+/**
+ * Get history item for defined event designator.
+ *
+ * @param event Event designator, without leading `!`.
+ * @param items Array of history items, oldest first.
+ */
+function getEvent(event: string, items: string[]) {
+  let item: string | undefined;
+
+  if (event === '!') {
+    item = items[items.length - 1];
+  } else if (/^-\d+$/.test(event)) {
+    item = items[items.length + parseInt(event, 10)];
+  } else if (/^\d+$/.test(event)) {
+    item = items[parseInt(event, 10) - 1];
+  } else if (event.startsWith('?')) {
+    const search = event.replace(/^\?|\?$/g, '');
+
+    item = items
+      .slice()
+      .reverse()
+      .find((e) => e.includes(search));
+  } else {
+    item = items
+      .slice()
+      .reverse()
+      .find((e) => e.startsWith(event));
+  }
+
+  if (item === undefined) {
+    throw new HistoryExpansionError('!' + event);
+  }
+
+  return item;
+}
+
+/**
+ * Expand history references in defined input, similar to Bash -- supports
+ * `!!`, `!$`, `!n`, `!-n`, `!prefix`, `!?substr?`, and `^old^new^`.
+ *
+ * @param input Input string.
+ * @param items Array of history items, oldest first.
+ */
+export function expandHistory(input: string, items: string[]): string {
+  // Quick substitution of previous command.
+  const quick = input.match(/^\^([^^]*)\^([^^]*)\^?$/);
+
+  if (quick) {
+    const prev = getEvent('!', items);
+
+    if (!quick[1] || !prev.includes(quick[1])) {
+      throw new HistoryExpansionError(input, 'substitution failed');
+    }
+
+    return prev.replace(quick[1], quick[2]);
+  }
+
+  let output = '';
+  let quoted = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input.charAt(i);
+    const next = input.charAt(i + 1);
+
+    // Escaped characters.
+    if (char === '\\' && !quoted) {
+      output += char + next;
+      i++;
+
+      continue;
+    }
+
+    if (char === "'") {
+      quoted = !quoted;
+    }
+
+    if (char !== '!' || quoted || next === '' || EVENT_SKIP_REGEX.test(next)) {
+      output += char;
+
+      continue;
+    }
+
+    let event = '';
+
+    // Last argument of previous command.
+    if (next === '$') {
+      output += getEvent('!', items).trim().split(/\s+/).pop();
+      i++;
+
+      continue;
+    }
+
+    if (next === '!') {
+      event = '!';
+    } else if (next === '?') {
+      const end = input.indexOf('?', i + 2);
+
+      event =
+        end === -1 ? input.substring(i + 1) : input.substring(i + 1, end + 1);
+    } else if (/[-\d]/.test(next)) {
+      event = (input.substring(i + 1).match(/^-?\d+/) || [next])[0];
+    } else {
+      while (
+        i + 1 + event.length < input.length &&
+        !EVENT_END_REGEX.test(input.charAt(i + 1 + event.length))
+      ) {
+        event += input.charAt(i + 1 + event.length);
+      }
+    }
+
+    output += getEvent(event, items);
+    i += event.length;
+  }
+
+  return output;
+}
@@ -0,0 +1,164 @@
+export interface HistoryStorage {
+  load(): string[] | Promise<string[]>;
+  append(item: string): void | Promise<void>;
+  clear(): void | Promise<void>;
+}
+
+const STORAGE_NAME = 'xterm-addon-local-echo';
+
+/**
+ * History storage kept in memory, lost on reload.
+ */
+export class MemoryHistoryStorage implements HistoryStorage {
+  private items: string[] = [];
+  private size: number;
+
+  constructor(size = 1000) {
+    this.size = size;
+  }
+
+  load(): string[] {
+    return this.items.slice();
+  }
+
+  append(item: string): void {
+    this.items.push(item);
+
+    if (this.items.length > this.size) {
+      this.items.shift();
+    }
+  }
+
+  clear(): void {
+    this.items = [];
+  }
+}
+
+/**
+ * History storage kept in `localStorage` as a JSON array -- items are read
+ * back before each append, so items appended by other tabs are kept.
+ */
+export class LocalStorageHistoryStorage implements HistoryStorage {
+  private key: string;
+  private size: number;
+  private storage: Storage;
+
+  constructor(key = STORAGE_NAME, size = 1000, storage?: Storage) {
+    this.key = key;
+    this.size = size;
+    this.storage = storage ?? globalThis.localStorage;
+  }
+
+  load(): string[] {
+    try {
+      const items = JSON.parse(this.storage.getItem(this.key) ?? '[]');
+
+      return Array.isArray(items) ? items : [];
+    } catch (error) {
+      return [];
+    }
+  }
+
+  append(item: string): void {
+    const items = this.load();
+
+    items.push(item);
+
+    this.storage.setItem(this.key, JSON.stringify(items.slice(-this.size)));
+  }
+
+  clear(): void {
+    this.storage.removeItem(this.key);
+  }
+}
+
+/**
+ * History storage kept in an IndexedDB object store -- each item is added as
+ * a separate record, so items appended by other tabs are kept in order.
+ */
+export class IndexedDBHistoryStorage implements HistoryStorage {
+  private db: Promise<IDBDatabase> | null = null;
+  private factory: IDBFactory;
+  private name: string;
+  private size: number;
+
+  constructor(name = STORAGE_NAME, size = 1000, factory?: IDBFactory) {
+    this.factory = factory ?? globalThis.indexedDB;
+    this.name = name;
+    this.size = size;
+  }
+
+  async load(): Promise<string[]> {
+    return this.transaction('readonly', (store) => store.getAll());
+  }
+
+  async append(item: string): Promise<void> {
+    await this.transaction('readwrite', (store) => {
+      const request = store.add(item);
+      const count = store.count();
+
+      // If too many items, delete the oldest.
+      count.onsuccess = () => {
+        const excess = count.result - this.size;
+
+        if (excess > 0) {
+          const keys = store.getAllKeys(null, excess);
+
+          keys.onsuccess = () => {
+            store.delete(IDBKeyRange.upperBound(keys.result[excess - 1]));
+          };
+        }
+      };
+
+      return request;
+    });
+  }
+
+  async clear(): Promise<void> {
+    await this.transaction('readwrite', (store) => store.clear());
+  }
+
+  /**
+   * Open database, creating object store if needed.
+   */
+  private open(): Promise<IDBDatabase> {
+    if (this.db === null) {
+      this.db = new Promise((resolve, reject) => {
+        const request = this.factory.open(this.name, 1);
+
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore('history', { autoIncrement: true });
+        };
+
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+
+    return this.db;
+  }
+
+  /**
+   * Run request(s) in a transaction, and resolve w/ the request result when
+   * the transaction completes -- or reject if it fails, or is aborted (e.g.
+   * when storage quota is exceeded).
+   *
+   * @param mode     Transaction mode.
+   * @param callback Function that creates request(s) for the object store.
+   */
+  private async transaction<T>(
+    mode: IDBTransactionMode,
+    callback: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    const db = await this.open();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction('history', mode);
+      const request = callback(transaction.objectStore('history'));
+
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+}
@@ -0,0 +1,317 @@
+export type EditAction =
+  | 'accept-line'
+  | 'backward-char'
+  | 'backward-delete-char'
+  | 'backward-kill-word'
+  | 'backward-word'
+  | 'beginning-of-line'
+  | 'complete'
+  | 'delete-char'
+  | 'end-of-line'
+  | 'forward-char'
+  | 'forward-search-history'
+  | 'forward-word'
+  | 'history-search-backward'
+  | 'history-search-forward'
+  | 'interrupt'
+  | 'kill-line'
+  | 'kill-whole-line'
+  | 'kill-word'
+  | 'next-history'
+  | 'previous-history'
+  | 'redo'
+  | 'reverse-search-history'
+  | 'self-insert'
+  | 'transpose-chars'
+  | 'undo'
+  | 'unix-line-discard'
+  | 'unix-word-rubout'
+  | 'vi-append-eol'
+  | 'vi-append-mode'
+  | 'vi-change-line'
+  | 'vi-change-to-eol'
+  | 'vi-insert-beg'
+  | 'vi-insertion-mode'
+  | 'vi-movement-mode'
+  | 'vi-put'
+  | 'yank'
+  | 'yank-pop';
+
+export type KeymapName = 'emacs' | 'vi-command' | 'vi-insert';
+
+export type KeymapBindings = Record<string, EditAction>;
+
+const KEY_NAMES: Record<string, string> = {
+  backspace: '\x7F',
+  delete: '\x1B[3~',
+  down: '\x1B[B',
+  end: '\x1B[F',
+  enter: '\r',
+  esc: '\x1B',
+  escape: '\x1B',
+  home: '\x1B[H',
+  left: '\x1B[D',
+  right: '\x1B[C',
+  space: ' ',
+  tab: '\t',
+  up: '\x1B[A',
+};
+
+// Bindings shared by Emacs and Vi insert keymaps.
+const INSERT_BINDINGS: KeymapBindings = {
+  'Backspace': 'backward-delete-char',
+  'Ctrl+C': 'interrupt',
+  'Ctrl+H': 'backward-delete-char',
+  'Ctrl+R': 'reverse-search-history',
+  'Ctrl+S': 'forward-search-history',
+  'Ctrl+U': 'unix-line-discard',
+  'Ctrl+W': 'unix-word-rubout',
+  'Delete': 'delete-char',
+  'Down': 'next-history',
+  'End': 'end-of-line',
+  'Enter': 'accept-line',
+  'Home': 'beginning-of-line',
+  'Left': 'backward-char',
+  'Right': 'forward-char',
+  'Tab': 'complete',
+  'Up': 'previous-history',
+  '\x1B[1~': 'beginning-of-line',
+  '\x1B[4~': 'end-of-line',
+  '\x1BOA': 'previous-history',
+  '\x1BOB': 'next-history',
+  '\x1BOC': 'forward-char',
+  '\x1BOD': 'backward-char',
+  '\x1BOF': 'end-of-line',
+  '\x1BOH': 'beginning-of-line',
+};
+
+/**
+ * Default Emacs keymap bindings.
+ */
+export const EMACS_BINDINGS: KeymapBindings = {
+  ...INSERT_BINDINGS,
+  'Alt+Backspace': 'backward-kill-word',
+  'Alt+B': 'backward-word',
+  'Alt+D': 'kill-word',
+  'Alt+F': 'forward-word',
+  'Alt+Y': 'yank-pop',
+  'Ctrl+A': 'beginning-of-line',
+  'Ctrl+B': 'backward-char',
+  'Ctrl+D': 'delete-char',
+  'Ctrl+E': 'end-of-line',
+  'Ctrl+F': 'forward-char',
+  'Ctrl+K': 'kill-line',
+  'Ctrl+N': 'next-history',
+  'Ctrl+P': 'previous-history',
+  'Ctrl+T': 'transpose-chars',
+  'Ctrl+X Ctrl+R': 'redo',
+  'Ctrl+X Ctrl+U': 'undo',
+  'Ctrl+Y': 'yank',
+  'Ctrl+_': 'undo',
+  '\x1B[1;3C': 'forward-word',
+  '\x1B[1;3D': 'backward-word',
+  '\x1B[1;5C': 'forward-word',
+  '\x1B[1;5D': 'backward-word',
+};
+
+/**
+ * Default Vi insert mode keymap bindings.
+ */
+export const VI_INSERT_BINDINGS: KeymapBindings = {
+  ...INSERT_BINDINGS,
+  Escape: 'vi-movement-mode',
+};
+
+/**
+ * Default Vi command mode keymap bindings.
+ */
+export const VI_COMMAND_BINDINGS: KeymapBindings = {
+  '$': 'end-of-line',
+  '/': 'reverse-search-history',
+  '0': 'beginning-of-line',
+  '?': 'forward-search-history',
+  'A': 'vi-append-eol',
+  'Backspace': 'backward-char',
+  'C': 'vi-change-to-eol',
+  'Ctrl+C': 'interrupt',
+  'Ctrl+R': 'redo',
+  'D': 'kill-line',
+  'Delete': 'delete-char',
+  'Down': 'next-history',
+  'End': 'end-of-line',
+  'Enter': 'accept-line',
+  'Home': 'beginning-of-line',
+  'I': 'vi-insert-beg',
+  'Left': 'backward-char',
+  'P': 'yank',
+  'Right': 'forward-char',
+  'S': 'vi-change-line',
+  'Space': 'forward-char',
+  'Up': 'previous-history',
+  'X': 'backward-delete-char',
+  '^': 'beginning-of-line',
+  'a': 'vi-append-mode',
+  'b': 'backward-word',
+  'c c': 'vi-change-line',
+  'd $': 'kill-line',
+  'd 0': 'unix-line-discard',
+  'd b': 'backward-kill-word',
+  'd d': 'kill-whole-line',
+  'd w': 'kill-word',
+  'h': 'backward-char',
+  'i': 'vi-insertion-mode',
+  'j': 'next-history',
+  'k': 'previous-history',
+  'l': 'forward-char',
+  'p': 'vi-put',
+  'u': 'undo',
+  'w': 'forward-word',
+  'x': 'delete-char',
+};
+
+/**
+ * Convert key notation (e.g. `Ctrl+A`, `Alt+F`, or `Ctrl+X Ctrl+U` for a key
+ * sequence) to terminal input data -- anything else is used as-is.
+ *
+ * @param keys Key notation string.
+ */
+export function parseKeys(keys: string): string {
+  // Raw escape sequences and control characters aren't parsed.
+  if (keys.length <= 1 || /[\x00-\x1F\x7F]/.test(keys)) {
+    return keys;
+  }
+
+  return keys
+    .split(' ')
+    .map((key) => {
+      const match = key.match(/^((?:(?:ctrl|alt|meta)\+)*)(.+)$/i);
+
+      if (!match) {
+        return key;
+      }
+
+      const modifiers = match[1].toLowerCase();
+      const name = match[2];
+
+      let data = KEY_NAMES[name.toLowerCase()] ?? name;
+
+      if (modifiers.includes('ctrl') && data.length === 1) {
+        data = String.fromCharCode(data.toUpperCase().charCodeAt(0) & 0x1f);
+      }
+
+      if (modifiers.includes('alt') || modifiers.includes('meta')) {
+        data = '\x1B' + (name.length === 1 ? name.toLowerCase() : data);
+      }
+
+      return data;
+    })
+    .join('');
+}
+
+/**
+ * Maps terminal input data, or sequences of input data, to editing actions.
+ */
+export class Keymap {
+  private bindings = new Map<string, EditAction>();
+  private sequence = '';
+
+  public insert: boolean;
+
+  constructor(bindings: KeymapBindings = {}, insert = true) {
+    this.insert = insert;
+
+    Object.entries(bindings).forEach(([keys, action]) => {
+      this.bind(keys, action);
+    });
+  }
+
+  /**
+   * Check if a key sequence has been started but not completed.
+   */
+  get pending(): boolean {
+    return this.sequence !== '';
+  }
+
+  /**
+   * Bind key(s) to an editing action.
+   *
+   * @param keys   Key notation string.
+   * @param action Editing action name.
+   */
+  bind(keys: string, action: EditAction): void {
+    this.bindings.set(parseKeys(keys), action);
+  }
+
+  /**
+   * Remove key(s) binding.
+   *
+   * @param keys Key notation string.
+   */
+  unbind(keys: string): void {
+    this.bindings.delete(parseKeys(keys));
+  }
+
+  /**
+   * Get editing action bound to key(s), if any.
+   *
+   * @param keys Key notation string.
+   */
+  get(keys: string): EditAction | undefined {
+    return this.bindings.get(parseKeys(keys));
+  }
+
+  /**
+   * Resolve editing action for input data, w/ respect to any pending key
+   * sequence -- printable input data inserts itself unless bound.
+   *
+   * @param data Input data from terminal.
+   */
+  resolve(data: string): EditAction | undefined {
+    const sequence = this.sequence + data;
+    const action = this.bindings.get(sequence);
+
+    this.sequence = '';
+
+    if (action) {
+      return action;
+    }
+
+    // If bound key sequence(s) start w/ input data, wait for more data.
+    for (const keys of this.bindings.keys()) {
+      if (keys.length > sequence.length && keys.startsWith(sequence)) {
+        this.sequence = sequence;
+
+        return;
+      }
+    }
+
+    // If pending key sequence isn't continued by input data, discard it and
+    // resolve input data by itself.
+    if (sequence !== data) {
+      return this.resolve(data);
+    }
+
+    // If unbound printable input data, insert it.
+    if (this.insert && !/[\x00-\x1F\x7F]/.test(data)) {
+      return 'self-insert';
+    }
+  }
+
+  /**
+   * Cancel pending key sequence.
+   */
+  reset(): void {
+    this.sequence = '';
+  }
+}
+
+/**
+ * Create default keymaps.
+ */
+export function createKeymaps(): Record<KeymapName, Keymap> {
+  return {
+    'emacs': new Keymap(EMACS_BINDINGS),
+    'vi-command': new Keymap(VI_COMMAND_BINDINGS, false),
+    'vi-insert': new Keymap(VI_INSERT_BINDINGS),
+  };
+}
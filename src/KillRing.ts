@@ -0,0 +1,63 @@
+export class KillRing {
+  private index = -1;
+  private itemsMax: number;
+
+  public items: string[] = [];
+
+  constructor(size: number) {
+    this.itemsMax = size;
+  }
+
+  /**
+   * Add killed text to the kill ring, or merge it w/ the most recent item if
+   * it continues a kill.
+   *
+   * @param text   Killed text.
+   * @param merge  Merge w/ the most recent item, if any.
+   * @param before Prepend text to the item (i.e. killed backward), instead of
+   *               appending it.
+   */
+  push(text: string, merge = false, before = false): void {
+    const last = this.items.length - 1;
+
+    // If merging, consecutive kills make a single item...
+    if (merge && last >= 0) {
+      this.items[last] = before
+        ? text + this.items[last]
+        : this.items[last] + text;
+
+      // ...else, add item, removing the oldest if full.
+    } else if (this.itemsMax > 0) {
+      this.items.push(text);
+
+      if (this.items.length > this.itemsMax) {
+        this.items.shift();
+      }
+    }
+
+    this.index = this.items.length - 1;
+  }
+
+  /**
+   * Get the most recent item for yanking, if any.
+   */
+  yank(): string | undefined {
+    this.index = this.items.length - 1;
+
+    return this.items[this.index];
+  }
+
+  /**
+   * Rotate to the previous (older) item for yanking, wrapping around to the
+   * most recent item, if any.
+   */
+  rotate(): string | undefined {
+    if (!this.items.length) {
+      return;
+    }
+
+    this.index = (this.index - 1 + this.items.length) % this.items.length;
+
+    return this.items[this.index];
+  }
+}
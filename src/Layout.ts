@@ -0,0 +1,137 @@
+import { getGraphemeWidth, getGraphemes, stripAnsi } from './Unicode';
+
+export interface CellPosition {
+  col: number;
+  row: number;
+}
+
+export interface LayoutPrompt {
+  ps1: string;
+  ps2: string;
+}
+
+/**
+ * Maps input offsets to screen cells for the defined prompt strings and
+ * number of columns, w/ respect to soft-wraps, hard newlines, and wide
+ * characters.
+ */
+export class Layout {
+  private col = 0;
+  private cols: number;
+  private offsets: number[] = [];
+  private pending = false;
+  private positions: CellPosition[] = [];
+  private row = 0;
+
+  public end: CellPosition;
+  public rows: number;
+  public wrapped: boolean;
+
+  constructor(input: string, cols: number, prompt?: Partial<LayoutPrompt>) {
+    const graphemes = getGraphemes(input);
+    const ps1 = stripAnsi(prompt?.ps1 ?? '');
+    const ps2 = stripAnsi(prompt?.ps2 ?? '');
+
+    this.cols = Math.max(cols, 1);
+    this.place(ps1);
+
+    let offset = 0;
+
+    for (const grapheme of graphemes) {
+      if (grapheme === '\n') {
+        this.record(offset, true);
+
+        this.col = 0;
+        this.pending = false;
+        this.row += 1;
+
+        this.place(ps2);
+      } else {
+        this.advance(grapheme, offset);
+      }
+
+      offset += grapheme.length;
+    }
+
+    // If input ends at the last column, the end is placed on the next row.
+    this.wrapped = this.pending;
+    this.record(offset, false);
+
+    this.end = this.positions[this.positions.length - 1];
+    this.rows = this.end.row + 1;
+  }
+
+  /**
+   * Get screen cell position for defined input offset.
+   *
+   * @param offset Input cursor offset.
+   */
+  getPosition(offset: number): CellPosition {
+    let index = 0;
+
+    while (
+      index < this.offsets.length - 1 &&
+      this.offsets[index + 1] <= offset
+    ) {
+      index++;
+    }
+
+    return this.positions[index];
+  }
+
+  /**
+   * Place grapheme cluster, wrapping to the next row if it doesn't fit.
+   *
+   * @param grapheme Grapheme cluster string.
+   * @param offset   Input offset of grapheme cluster, if any.
+   */
+  private advance(grapheme: string, offset?: number) {
+    const width = getGraphemeWidth(grapheme);
+
+    if (this.pending || this.col + width > this.cols) {
+      this.col = 0;
+      this.pending = false;
+      this.row += 1;
+    }
+
+    if (offset !== undefined) {
+      this.record(offset, false);
+    }
+
+    this.col += width;
+
+    if (this.col >= this.cols) {
+      this.pending = true;
+    }
+  }
+
+  /**
+   * Place prompt string.
+   *
+   * @param prompt Prompt string.
+   */
+  private place(prompt: string) {
+    getGraphemes(prompt).forEach((e) => this.advance(e));
+  }
+
+  /**
+   * Record position for defined input offset.
+   *
+   * @param offset  Input offset.
+   * @param newline Position is followed by a hard newline.
+   */
+  private record(offset: number, newline: boolean) {
+    let position = { col: this.col, row: this.row };
+
+    // Pending wrap is shown at the last column when followed by a newline,
+    // else at the beginning of the next row.
+    if (this.pending) {
+      position = newline
+        ? { col: this.cols - 1, row: this.row }
+        : { col: 0, row: this.row + 1 };
+    }
+
+    this.offsets.push(offset);
+    this.positions.push(position);
+  }
+}
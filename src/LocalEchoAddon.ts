@@ -1,29 +1,145 @@
 import type { Terminal, ITerminalAddon, IDisposable } from 'xterm';
-import ansiRegex from 'ansi-regex';
 
-import { History } from './History';
+import { AutosuggestProvider, HistoryAutosuggestProvider } from './Autosuggest';
+import { CommandSpec, getCommandSpecSuggestions } from './CommandSpec';
+import { InputCompleteCallback, isShellComplete } from './Completeness';
+import type { Highlighter } from './Highlight';
+import { History, HistoryControl } from './History';
+import { HistoryExpansionError, expandHistory } from './HistoryExpansion';
+import type { HistoryStorage } from './HistoryStorage';
+import { EditAction, Keymap, KeymapName, createKeymaps } from './Keymap';
+import { KillRing } from './KillRing';
+import { Layout, LayoutPrompt } from './Layout';
+import type { MatchStrategy } from './Matching';
+import { Renderer } from './Renderer';
+import { UndoStack } from './UndoStack';
 import {
-  getColRow,
-  getTrailingArgument,
-  getLineCount,
+  getActiveStyle,
+  getGraphemeBoundary,
+  getStringWidth,
+  getTruncated,
+  stripAnsi,
+} from './Unicode';
+import {
+  TabCompleteContext,
+  TabCompleteItem,
+  getNormalizedInput,
+  getPastedText,
+  getTabCompleted,
+  getTabContext,
+  getTabInsert,
   getTabShared,
+  getTabSuffix,
   getTabSuggestions,
   getWord,
-  hasIncompleteChars,
+  getWordEnd,
   hasTrailingWhitespace,
+  settle,
 } from './Utils';
 
+export { HistoryAutosuggestProvider } from './Autosuggest';
+export type { AutosuggestProvider } from './Autosuggest';
+export type {
+  CommandSpec,
+  CommandSpecArg,
+  CommandSpecGenerator,
+  CommandSpecOption,
+} from './CommandSpec';
+export {
+  createTerminatorComplete,
+  isBracketsComplete,
+  isIndentComplete,
+  isShellComplete,
+} from './Completeness';
+export type { InputCompleteCallback } from './Completeness';
+export {
+  IndexedDBHistoryStorage,
+  LocalStorageHistoryStorage,
+  MemoryHistoryStorage,
+} from './HistoryStorage';
+export { createShellHighlighter } from './Highlight';
+export type {
+  Highlighter,
+  ShellHighlighterOptions,
+  ShellTokenStyle,
+} from './Highlight';
+export type { HistoryControl } from './History';
+export { HistoryExpansionError } from './HistoryExpansion';
+export type { HistoryStorage } from './HistoryStorage';
+export type { EditAction, KeymapName } from './Keymap';
+export type { MatchStrategy } from './Matching';
+export { parseShell } from './ShellParser';
+export type {
+  ShellIncompleteReason,
+  ShellParseResult,
+  ShellToken,
+} from './ShellParser';
+export type { TabCompleteContext, TabCompleteItem } from './Utils';
+
 interface ActivePrompt {
+  isComplete?: InputCompleteCallback | null;
+  normalize?: InputNormalizeCallback | null;
   ps1: string;
   ps2: string;
   resolve: any;
   reject: any;
+  validate?: InputValidateCallback | null;
+}
+
+export type InputNormalizeCallback = (input: string) => string;
+
+export type InputValidateCallback = (
+  input: string
+) => string | null | Promise<string | null>;
+
+export interface ReadOptions {
+  isComplete: InputCompleteCallback | null;
+  normalize: InputNormalizeCallback | null;
+  validate: InputValidateCallback | null;
 }
 
 export interface Options {
+  autosuggest: boolean;
+  autosuggestProviders: AutosuggestProvider[];
+  bracketedPaste: boolean;
+  highlighter: Highlighter | null;
+  historyControl: HistoryControl[];
+  historyExpansion: boolean;
+  historyExpansionError: 'reject' | 'reprompt';
+  historyIgnore: (string | RegExp)[];
+  historySearchPrefix: boolean;
   historySize: number;
+  historyStorage: HistoryStorage | null;
+  historyVerify: boolean;
   incompleteEnabled: boolean;
+  keymap: 'emacs' | 'vi';
+  killRingSize: number;
+  pastePolicy: 'confirm' | 'insert' | 'run';
+  tabCompleteCache: number;
+  tabCompleteMatch: MatchStrategy;
+  tabCompleteMenu: boolean;
   tabCompleteSize: number;
+  tabCompleteTimeout: number;
+}
+
+interface MenuState {
+  context: TabCompleteContext;
+  index: number;
+  items: TabCompleteItem[];
+}
+
+interface SearchState {
+  cursor: number;
+  failed: boolean;
+  index: number;
+  input: string;
+  query: string;
+  reverse: boolean;
+}
+
+interface TabCompleteCache {
+  items: TabCompleteItem[];
+  time: number;
 }
 
 interface TabCompleteHandler {
@@ -31,31 +147,124 @@ interface TabCompleteHandler {
   args: any[];
 }
 
+interface TabCompleteRequest {
+  controller: AbortController;
+  cursor: number;
+  input: string;
+}
+
 interface TerminalSize {
   cols: number;
   rows: number;
 }
 
+interface YankState {
+  end: number;
+  start: number;
+}
+
+// Bracketed paste mode sequences.
+const PASTE_START = '\x1B[200~';
+const PASTE_END = '\x1B[201~';
+
+// Editing actions that kill text -- consecutive kills are merged.
+const KILL_ACTIONS: EditAction[] = [
+  'backward-kill-word',
+  'kill-line',
+  'kill-whole-line',
+  'kill-word',
+  'unix-line-discard',
+  'unix-word-rubout',
+  'vi-change-line',
+  'vi-change-to-eol',
+];
+
 export class LocalEchoAddon implements ITerminalAddon {
   private terminal!: Terminal;
   private disposables: IDisposable[] = [];
 
+  private acceptError: string | null = null;
   private active = false;
   private activePrompt: ActivePrompt | null = null;
   private activePromptChar: ActivePrompt | null = null;
+  private autosuggest: boolean;
+  private autosuggestController: AbortController | null = null;
+  private bracketedPaste: boolean;
   private cursor = 0;
+  private commandSpecs = new Map<CommandSpec, Function>();
+  private editMode: 'emacs' | 'vi';
+  private highlighter: Highlighter | null;
+  private historyBrowsing = false;
+  private historyExpansion: boolean;
+  private historyExpansionError: 'reject' | 'reprompt';
+  private historyPrefix: string | null = null;
+  private historyVerify: boolean;
   private incompleteEnabled: boolean;
   private input = '';
+  private keymapName: KeymapName;
+  private keymaps: Record<KeymapName, Keymap> = createKeymaps();
+  private lastAction: EditAction | null = null;
+  private menu: MenuState | null = null;
+  private pasteBuffer: string | null = null;
+  private pastePolicy: 'confirm' | 'insert' | 'run';
+  private pasteQueue: string[] = [];
+  private pasting = false;
+  private renderer = new Renderer((data) => this.terminal.write(data));
+  private search: SearchState | null = null;
+  private searchQuery = '';
+  private suggestion: string | null = null;
+  private suggestionCache = new Map<string, TabCompleteCache>();
+  private tabCompleteCache: number;
   private tabCompleteHandlers: TabCompleteHandler[] = [];
+  private tabCompleteMatch: MatchStrategy;
+  private tabCompleteMenu: boolean;
+  private tabCompleteRequest: TabCompleteRequest | null = null;
   private tabCompleteSize: number;
+  private tabCompleteTimeout: number;
   private terminalSize: TerminalSize = { cols: 0, rows: 0 };
+  private undoing = false;
+  private undoStack = new UndoStack();
+  private yanked: YankState | null = null;
 
+  public autosuggestProviders: AutosuggestProvider[];
   public history: History;
+  public killRing: KillRing;
 
   constructor(options?: Partial<Options>) {
-    this.history = new History(options?.historySize ?? 10);
+    this.history = new History(options?.historySize ?? 10, {
+      control: options?.historyControl ?? ['ignoredups'],
+      ignore: options?.historyIgnore ?? [],
+      storage: options?.historyStorage ?? null,
+    });
+    this.autosuggest = options?.autosuggest ?? false;
+    this.autosuggestProviders = options?.autosuggestProviders ?? [
+      new HistoryAutosuggestProvider(this.history),
+    ];
+    this.bracketedPaste = options?.bracketedPaste ?? true;
+    this.highlighter = options?.highlighter ?? null;
+    this.historyExpansion = options?.historyExpansion ?? false;
+    this.historyExpansionError = options?.historyExpansionError ?? 'reprompt';
+    this.historyVerify = options?.historyVerify ?? false;
     this.incompleteEnabled = options?.incompleteEnabled ?? true;
+    this.editMode = options?.keymap ?? 'emacs';
+    this.keymapName = this.getInsertKeymap();
+    this.killRing = new KillRing(options?.killRingSize ?? 10);
+    this.pastePolicy = options?.pastePolicy ?? 'insert';
+    this.tabCompleteCache = options?.tabCompleteCache ?? 0;
+    this.tabCompleteMatch = options?.tabCompleteMatch ?? 'prefix';
+    this.tabCompleteMenu = options?.tabCompleteMenu ?? false;
     this.tabCompleteSize = options?.tabCompleteSize ?? 10;
+    this.tabCompleteTimeout = options?.tabCompleteTimeout ?? 5000;
+
+    // If prefix history search enabled, bind up and down arrows.
+    if (options?.historySearchPrefix) {
+      (['emacs', 'vi-insert', 'vi-command'] as KeymapName[]).forEach((e) => {
+        this.bindKey('Up', 'history-search-backward', e);
+        this.bindKey('Down', 'history-search-forward', e);
+        this.bindKey('\x1BOA', 'history-search-backward', e);
+        this.bindKey('\x1BOB', 'history-search-forward', e);
+      });
+    }
   }
 
   private attach() {
@@ -89,9 +298,18 @@ export class LocalEchoAddon implements ITerminalAddon {
   public activate(terminal: Terminal): void {
     this.terminal = terminal;
     this.attach();
+
+    // Enable bracketed paste mode, so pasted text is marked by the terminal.
+    if (this.bracketedPaste) {
+      this.terminal.write('\x1B[?2004h');
+    }
   }
 
   public dispose(): void {
+    if (this.terminal && this.bracketedPaste) {
+      this.terminal.write('\x1B[?2004l');
+    }
+
     this.detach();
   }
 
@@ -100,24 +318,66 @@ export class LocalEchoAddon implements ITerminalAddon {
   /*--------------------------------------------------------------------------*/
 
   /**
-   * Return promise that resolves when a complete input is sent.
+   * Get cursor offset in the current input.
+   */
+  public get currentCursor(): number {
+    return this.cursor;
+  }
+
+  /**
+   * Get current input string, as typed.
+   */
+  public get currentInput(): string {
+    return this.input;
+  }
+
+  /**
+   * Return promise that resolves when a complete input is sent -- if an
+   * `isComplete` callback is defined, it's used instead of the shell rules to
+   * check if the input continues on a new line. Complete input can be refused
+   * w/ an error message by a `validate` callback, and is trimmed and has
+   * escaped newlines removed unless a `normalize` callback is defined.
    *
-   * @param ps1 Default input prompt string.
-   * @param ps2 Continuation input prompt string.
+   * @param ps1     Default input prompt string.
+   * @param ps2     Continuation input prompt string.
+   * @param options Read options.
    */
-  public async read(ps1 = '$ ', ps2 = '> ') {
+  public async read(ps1 = '$ ', ps2 = '> ', options?: Partial<ReadOptions>) {
     return new Promise((resolve, reject) => {
-      this.terminal.write(ps1);
-
       this.active = true;
       this.activePrompt = {
+        isComplete: options?.isComplete ?? null,
+        normalize:
+          options?.normalize === undefined
+            ? getNormalizedInput
+            : options.normalize,
         ps1,
         ps2,
         resolve,
         reject,
+        validate: options?.validate ?? null,
       };
+      this.acceptError = null;
       this.cursor = 0;
       this.input = '';
+      this.keymapName = this.getInsertKeymap();
+      this.keymaps[this.keymapName].reset();
+      this.lastAction = null;
+      this.undoStack.reset();
+      this.historyPrefix = null;
+      this.menu = null;
+      this.search = null;
+      this.suggestion = null;
+
+      // Discard history edits, and merge items added by other terminals.
+      this.history.reset();
+      this.history.load();
+
+      this.renderer.reset();
+      this.render();
+
+      // If pasted lines are waiting to run, continue w/ the next one.
+      this.handlePasteQueue();
     });
   }
 
@@ -146,6 +406,20 @@ export class LocalEchoAddon implements ITerminalAddon {
    * @param reason Abort reason string.
    */
   public readAbort(reason = 'READINT') {
+    this.cancelTabComplete();
+    this.clearSuggestion();
+
+    // If completion menu displayed, clear it.
+    if (this.menu) {
+      this.handleMenuEnd(true);
+    }
+
+    if (this.acceptError) {
+      this.setAcceptError(null);
+    }
+
+    this.pasteQueue = [];
+
     if (this.activePrompt !== null || this.activePromptChar !== null) {
       this.terminal.write('\r\n');
     }
@@ -194,25 +468,71 @@ export class LocalEchoAddon implements ITerminalAddon {
       return;
     }
 
-    const widest = items.reduce((width, e) => Math.max(width, e.length), 0);
+    const widest = items.reduce((width, e) => {
+      return Math.max(width, getStringWidth(e));
+    }, 0);
 
     let output = '';
+    let outputWidth = 0;
 
     for (let i = 0; i < items.length; i++) {
-      let itemWide = items[i].padEnd(widest + padding, ' ');
+      const itemWidth = widest + padding;
+      const itemWide =
+        items[i] + ' '.repeat(itemWidth - getStringWidth(items[i]));
 
-      if (output.length + itemWide.length > this.terminalSize.cols) {
+      if (outputWidth + itemWidth > this.terminalSize.cols) {
         this.println(output);
 
         output = '';
+        outputWidth = 0;
       }
 
       output += itemWide;
+      outputWidth += itemWidth;
     }
 
     this.println(output);
   }
 
+  /**
+   * Print list of tab complete suggestions -- inline, or one per line w/
+   * descriptions in a column next to the labels if any are described.
+   *
+   * @param items   Array of tab complete suggestions.
+   * @param padding Horizontal padding between columns.
+   */
+  public printlsSuggestions(items: TabCompleteItem[], padding = 3) {
+    if (!items.some((e) => e.description)) {
+      this.printlsInline(
+        items.map((e) => e.label),
+        padding
+      );
+
+      return;
+    }
+
+    const widest = items.reduce((width, e) => {
+      return Math.max(width, getStringWidth(e.label));
+    }, 0);
+
+    for (const item of items) {
+      const label = item.label.padEnd(
+        widest + item.label.length - getStringWidth(item.label) + padding,
+        ' '
+      );
+
+      // If description found, truncate it to fit the terminal width.
+      const description = getTruncated(
+        item.description ?? '',
+        this.terminalSize.cols - widest - padding - 1
+      );
+
+      this.println(
+        description ? `${label}\x1B[2m${description}\x1B[22m` : item.label
+      );
+    }
+  }
+
   /**
    * Print numbered list w/ padding.
    *
@@ -241,6 +561,7 @@ export class LocalEchoAddon implements ITerminalAddon {
    */
   public addTabCompleteHandler(callback: Function, ...args: any[]) {
     this.tabCompleteHandlers.push({ callback, args });
+    this.suggestionCache.clear();
   }
 
   /**
@@ -255,9 +576,61 @@ export class LocalEchoAddon implements ITerminalAddon {
 
     if (index !== -1) {
       this.tabCompleteHandlers.splice(index, 1);
+      this.suggestionCache.clear();
+    }
+  }
+
+  /**
+   * Add a declarative command spec, completing its subcommands, options, and
+   * arguments.
+   *
+   * @param spec Command spec.
+   */
+  public addCommandSpec(spec: CommandSpec) {
+    const callback = (index: number, context: TabCompleteContext) => {
+      return getCommandSpecSuggestions(spec, context);
+    };
+
+    this.removeCommandSpec(spec);
+    this.commandSpecs.set(spec, callback);
+    this.addTabCompleteHandler(callback);
+  }
+
+  /**
+   * Remove a previously added command spec.
+   *
+   * @param spec Command spec.
+   */
+  public removeCommandSpec(spec: CommandSpec) {
+    const callback = this.commandSpecs.get(spec);
+
+    if (callback) {
+      this.commandSpecs.delete(spec);
+      this.removeTabCompleteHandler(callback);
     }
   }
 
+  /**
+   * Bind key(s) to an editing action.
+   *
+   * @param keys   Key notation string, e.g. `Ctrl+A` or `Ctrl+X Ctrl+U`.
+   * @param action Editing action name.
+   * @param keymap Keymap name, defaults to current editing mode keymap.
+   */
+  public bindKey(keys: string, action: EditAction, keymap?: KeymapName) {
+    this.keymaps[keymap ?? this.getInsertKeymap()].bind(keys, action);
+  }
+
+  /**
+   * Remove a previously bound key(s).
+   *
+   * @param keys   Key notation string.
+   * @param keymap Keymap name, defaults to current editing mode keymap.
+   */
+  public unbindKey(keys: string, keymap?: KeymapName) {
+    this.keymaps[keymap ?? this.getInsertKeymap()].unbind(keys);
+  }
+
   /*--------------------------------------------------------------------------*/
   // Private(~ish) API
   /*--------------------------------------------------------------------------*/
@@ -268,12 +641,68 @@ export class LocalEchoAddon implements ITerminalAddon {
    * @param input Input string.
    */
   private applyPrompt(input: string) {
-    const prompt = {
-      ...{ ps1: '', ps2: '' },
-      ...this.activePrompt,
-    };
+    const prompt = this.getPrompt();
+
+    let output = prompt.ps1;
+    let style = '';
+
+    input.split('\n').forEach((line, i) => {
+      // If styled, reset style before the line break and restore it after
+      // the continuation prompt, so it doesn't apply to the prompt.
+      if (i > 0) {
+        output += style ? `\x1B[0m\n${prompt.ps2}${style}` : `\n${prompt.ps2}`;
+      }
+
+      output += line;
+      style = getActiveStyle(style + line);
+    });
+
+    return output;
+  }
+
+  /**
+   * Highlight defined input w/ highlighter, if any -- highlighted output w/
+   * different text than the input is ignored.
+   *
+   * @param input Input string.
+   */
+  private applyHighlight(input: string) {
+    // History search matches are highlighted instead.
+    if (this.search) {
+      return this.applySearchHighlight(input);
+    }
+
+    if (!this.highlighter) {
+      return input;
+    }
+
+    const output = this.highlighter(input);
+
+    return stripAnsi(output) === input ? output : input;
+  }
+
+  /**
+   * Highlight history search match in the defined input, if any.
+   *
+   * @param input Input string.
+   */
+  private applySearchHighlight(input: string) {
+    const query = this.search?.query;
+
+    // Search matches are always found at cursor offset.
+    if (!query || !input.startsWith(query, this.cursor)) {
+      return input;
+    }
 
-    return prompt.ps1 + input.replace(/\n/g, '\n' + prompt.ps2);
+    const end = this.cursor + query.length;
+
+    return (
+      input.substring(0, this.cursor) +
+      '\x1B[7m' +
+      input.substring(this.cursor, end) +
+      '\x1B[27m' +
+      input.substring(end)
+    );
   }
 
   /**
@@ -288,9 +717,8 @@ export class LocalEchoAddon implements ITerminalAddon {
     this.terminal.write('\r\n');
 
     const resume = () => {
-      this.cursor = cursor;
-
-      this.setInput(this.input);
+      this.renderer.reset();
+      this.setInput(this.input, cursor);
     };
 
     const promise = callback();
@@ -306,469 +734,1557 @@ export class LocalEchoAddon implements ITerminalAddon {
   }
 
   /**
-   * Returns adjusted offset w/ respect to defined input and prompt strings.
-   *
-   * @param input  Input string.
-   * @param offset Input cursor offset.
+   * Cancel pending tab complete, if any.
+   */
+  private cancelTabComplete() {
+    if (this.tabCompleteRequest) {
+      this.tabCompleteRequest.controller.abort();
+
+      this.tabCompleteRequest = null;
+    }
+  }
+
+  /**
+   * Cancel pending autosuggestion, and clear displayed autosuggestion if any.
    */
-  private applyPromptOffset(input: string, offset: number) {
-    const prompt = this.applyPrompt(input.substring(0, offset));
+  private clearSuggestion() {
+    this.autosuggestController?.abort();
 
-    return prompt.replace(ansiRegex(), '').length;
+    if (this.suggestion !== null) {
+      this.suggestion = null;
+
+      this.render();
+    }
   }
 
   /**
    * Clear current input and move the cursor to beginning of prompt.
    */
   private clearInput() {
-    const input = this.applyPrompt(this.input);
-    const offset = this.applyPromptOffset(this.input, input.length);
+    const layout = this.getLayout(this.input);
 
-    // Get current cursor position and lines count.
-    const { row } = getColRow(input, offset, this.terminalSize.cols);
-    const lines = getLineCount(input, this.terminalSize.cols);
-    const moveDown = lines - (row + 1);
+    this.renderer.clear(layout.getPosition(this.cursor).row);
+  }
 
-    // Move to last line of the current input.
-    for (let i = 0; i < moveDown; i++) {
-      this.terminal.write('\x1B[E');
-    }
+  /**
+   * Get accept error rows, red and truncated to the terminal width.
+   *
+   * @param error Error message.
+   */
+  private getErrorRows(error: string) {
+    const cols = Math.max(this.terminalSize.cols, 1);
 
-    // Clear the current line, then move up and clear remaining lines.
-    this.terminal.write('\r\x1B[K');
+    return error.split('\n').map((e) => {
+      return `\x1B[31m${getTruncated(e, cols)}\x1B[39m`;
+    });
+  }
 
-    for (let i = 1; i < lines; i++) {
-      this.terminal.write('\x1B[F\x1B[K');
-    }
+  /**
+   * Get name of the insert keymap for current editing mode.
+   */
+  private getInsertKeymap(): KeymapName {
+    return this.editMode === 'vi' ? 'vi-insert' : 'emacs';
   }
 
   /**
-   * Insert character(s) at current cursor offset.
+   * Get layout of defined input w/ respect to active prompt and terminal size.
    *
    * @param input Input string.
    */
-  private handleCursorInsert(input: string) {
-    this.cursor += input.length;
-
-    this.setInput(
-      this.input.substring(0, this.cursor) +
-        input +
-        this.input.substring(this.cursor)
-    );
+  private getLayout(input: string) {
+    return new Layout(input, this.terminalSize.cols, this.getPrompt());
   }
 
   /**
-   * Move cursor w/ respect to current cursor offset.
+   * Get completion menu rows for defined menu state, w/ as many rows as fit
+   * below the defined input layout and the selected item highlighted.
    *
-   * @param offset Cursor movement offset.
+   * @param menu   Completion menu state.
+   * @param layout Input layout.
    */
-  private handleCursorMove(offset: number) {
-    // If positive offset, move cursor forward.
-    if (offset > 0) {
-      const move = Math.min(offset, this.input.length - this.cursor);
+  private getMenuRows(menu: MenuState, layout: Layout) {
+    const cols = Math.max(this.terminalSize.cols, 1);
+    const columns = this.getMenuColumns(menu);
+    const labels = menu.items.map((e) => getTruncated(e.label, cols - 2));
+    const widest = labels.reduce((width, e) => {
+      return Math.max(width, getStringWidth(e));
+    }, 0);
+
+    // Scroll rows so that the selected item is displayed.
+    const count = Math.ceil(labels.length / columns);
+    const max = Math.max(this.terminalSize.rows - layout.rows, 1);
+    const first = Math.max(Math.floor(menu.index / columns) - max + 1, 0);
+    const rows = [];
+
+    for (let row = first; row < Math.min(first + max, count); row++) {
+      let output = '';
+
+      for (let col = 0; col < columns; col++) {
+        const index = row * columns + col;
+
+        if (index >= labels.length) {
+          break;
+        }
 
-      this.setCursor(this.cursor + move);
+        const label =
+          labels[index] + ' '.repeat(widest - getStringWidth(labels[index]));
 
-      // ...else, if negative offset, move cursor back.
-    } else if (offset < 0) {
-      const move = Math.max(offset, this.cursor * -1);
+        output +=
+          index === menu.index ? `\x1B[7m${label}\x1B[27m  ` : `${label}  `;
+      }
 
-      this.setCursor(this.cursor + move);
+      rows.push(output);
     }
+
+    return rows;
   }
 
   /**
-   * Erase a character at cursor location
+   * Get number of completion menu columns that fit the terminal width.
    *
-   * @param bksp Backspace key press.
+   * @param menu Completion menu state.
    */
-  private handleCursorErase(bksp: boolean) {
-    // If backspace key press, move cursor position back.
-    if (bksp && this.cursor > 0) {
-      this.cursor -= 1;
-    }
+  private getMenuColumns(menu: MenuState) {
+    const cols = Math.max(this.terminalSize.cols, 1);
+    const widest = menu.items.reduce((width, e) => {
+      return Math.max(width, getStringWidth(e.label));
+    }, 0);
 
-    this.setInput(
-      this.input.substring(0, this.cursor) +
-        this.input.substring(this.cursor + 1)
-    );
+    return Math.max(Math.floor(cols / (Math.min(widest, cols - 2) + 2)), 1);
   }
 
   /**
-   * Handle input data from terminal based on key press.
+   * Get autosuggestion text displayed after defined input, if any.
    *
-   * @param data Key press data from terminal.
+   * @param input Input string.
    */
-  private handleData(data: string) {
-    // If no prompt(s) active, return.
-    if (!this.active) {
-      return;
+  private getGhost(input: string) {
+    const suggestion = this.suggestion;
+
+    // Autosuggestions aren't displayed during history search or completion.
+    if (!suggestion || this.search || this.menu) {
+      return '';
     }
 
-    const char = data.charCodeAt(0);
+    return suggestion.startsWith(input)
+      ? suggestion.substring(input.length)
+      : '';
+  }
 
-    // If ANSI escape sequence...
-    if (char == 0x1b) {
-      switch (data.substring(1)) {
-        // Up arrow.
-        case '[A':
-          if (this.history) {
-            const prev = this.history.getPrev();
+  /**
+   * Get tab complete suggestions for current input and cursor offset, from
+   * cache if enabled and not expired -- and whether any handler failed or
+   * timed out, so its suggestions are missing.
+   *
+   * @param signal Signal aborted when suggestions are no longer needed.
+   */
+  private async getSuggestions(signal: AbortSignal) {
+    // Handlers get the whole input, so text after the cursor is part of the
+    // cache key too.
+    const key = `${this.cursor}:${this.input}`;
+    const cached = this.suggestionCache.get(key);
+    const time = Date.now();
+
+    if (cached && time - cached.time < this.tabCompleteCache) {
+      return { failed: false, items: cached.items };
+    }
 
-            if (prev) {
-              this.setInput(prev);
-              this.setCursor(prev.length);
-            }
-          }
-          break;
+    let failed = false;
 
-        // Down arrow.
-        case '[B':
-          if (this.history) {
-            const next = this.history.getNext() || '';
+    const items = await getTabSuggestions(
+      this.tabCompleteHandlers,
+      this.input,
+      this.cursor,
+      signal,
+      this.tabCompleteTimeout,
+      this.tabCompleteMatch,
+      () => (failed = true)
+    );
 
-            this.setInput(next);
-            this.setCursor(next.length);
-          }
-          break;
+    // If cache enabled, remove expired suggestions and cache new ones, unless
+    // they're missing any.
+    if (this.tabCompleteCache > 0 && !signal.aborted && !failed) {
+      this.suggestionCache.forEach((e, k) => {
+        if (time - e.time >= this.tabCompleteCache) {
+          this.suggestionCache.delete(k);
+        }
+      });
 
-        /* Left arrow.
-        case '[D':
-          this.handleCursorMove(-1);
-          break; */
+      this.suggestionCache.set(key, { items, time });
+    }
 
-        /* Right arrow.
-        case '[C':
-          this.handleCursorMove(1);
-          break; */
+    return { failed, items };
+  }
 
-        // Delete.
-        case '[3~':
-          this.handleCursorErase(false);
-          break;
+  /**
+   * Get prompt strings for active prompt, or history search prompt if a
+   * search is in progress.
+   */
+  private getPrompt(): LayoutPrompt {
+    const prompt = {
+      ...{ ps1: '', ps2: '' },
+      ...this.activePrompt,
+    };
 
-        /* End.
-        case '[F':
-          this.setCursor(this.input.length);
-          break; */
+    if (this.search) {
+      const failed = this.search.failed ? 'failed ' : '';
+      const name = this.search.reverse ? 'reverse-i-search' : 'i-search';
 
-        /* Home.
-        case '[H':
-          this.setCursor(0);
-          break; */
+      return {
+        ps1: `(${failed}${name})\`${this.search.query}': `,
+        ps2: prompt.ps2,
+      };
+    }
 
-        /* Alt + left arrow.
-        case 'b':
-          const left = getWord(this.input, this.cursor, true);
+    return { ps1: prompt.ps1, ps2: prompt.ps2 };
+  }
 
-          this.setCursor(left);
-          break; */
+  /**
+   * Get undo group for defined editing action -- typed characters are
+   * grouped by word, and consecutive character deletions together.
+   *
+   * @param action Editing action name.
+   * @param data   Key press data from terminal.
+   */
+  private getUndoGroup(action: EditAction, data: string) {
+    switch (action) {
+      case 'self-insert': {
+        const word = this.input.substring(0, this.cursor).search(/\S*$/);
 
-        /* Alt + right arrow.
-        case 'f':
-          const right = getWord(this.input, this.cursor, false);
+        return `${action}:${word}`;
+      }
 
-          this.setCursor(right);
-          break; */
+      case 'backward-delete-char':
+      case 'delete-char':
+        return action;
 
-        // Alt + backspace.
-        case '\x7F': {
-          const b = getWord(this.input, this.cursor, true);
-          const a = getWord(this.input, b, false);
+      default:
+        return null;
+    }
+  }
 
-          this.setInput(this.input.substring(0, b) + this.input.substring(a));
-          this.setCursor(b);
-          break;
-        }
+  /**
+   * Handle accepted line -- if the input is incomplete, continue it on a new
+   * line, else validate it and complete read prompt w/ the normalized input.
+   */
+  private handleAcceptLine() {
+    const input = this.input;
+    const prompt = this.activePrompt;
+    const isComplete =
+      prompt?.isComplete ?? (this.incompleteEnabled ? isShellComplete : null);
+    const validator = prompt?.validate ?? null;
+
+    const accept = (complete: boolean, error: string | null) => {
+      // If prompt ended, or input changed since, ignore result.
+      if (prompt !== this.activePrompt || this.input !== input) {
+        return;
       }
 
-      // ...else, if special character...
-    } else if (char < 32 || char === 0x7f) {
-      switch (data) {
-        // Enter.
-        case '\r':
-          if (this.incompleteEnabled) {
-            // If current input has incomplete char(s), move to new line.
-            if (hasIncompleteChars(this.input)) {
-              this.handleCursorInsert('\n');
-            }
-          } else {
-            this.handleReadComplete();
-          }
-          break;
+      // If input incomplete, continue on a new line at the end of it...
+      if (!complete) {
+        this.setInput(input + '\n', input.length + 1);
+        this.handlePasteQueue();
 
-        // Backspace.
-        case '\x7F':
-          this.handleCursorErase(true);
-          break;
+        // ...else, if input refused, display error below it.
+      } else if (error) {
+        this.pasteQueue = [];
 
-        // Tab.
-        case '\t':
-          // If any tab complete handlers found, check for suggestions...
-          if (this.tabCompleteHandlers.length) {
-            const input = this.input.substring(0, this.cursor);
-            const fragment = getTrailingArgument(input);
-
-            getTabSuggestions(this.tabCompleteHandlers, input).then(
-              (suggestions) => {
-                suggestions.sort();
-
-                // If no suggestions found, check for trailing whitespace...
-                if (suggestions.length === 0) {
-                  const whitespace = hasTrailingWhitespace(input);
-
-                  // If no trailing whitespace found, insert tab.
-                  if (!whitespace) {
-                    this.handleCursorInsert('\t');
-                  }
-
-                  // ...else, if only one suggestion found append to input...
-                } else if (suggestions.length === 1) {
-                  this.handleCursorInsert(
-                    suggestions[0].substring(fragment.length) + ' '
-                  );
-
-                  // ...else, if number of suggestions less than maximum print list...
-                } else if (suggestions.length <= this.tabCompleteSize) {
-                  const shared = getTabShared(fragment, suggestions);
-
-                  // If shared fragment found, append to input.
-                  if (shared) {
-                    this.handleCursorInsert(shared.substring(fragment.length));
-                  }
-
-                  this.applyPromptComplete(() => {
-                    this.printlsInline(suggestions);
-                  });
-
-                  // ...else, print display all suggestions prompt.
-                } else {
-                  this.applyPromptComplete(() =>
-                    this.readChar(
-                      `Do you wish to see all ${suggestions.length} possibilities? (y/n) `
-                    ).then((char) => {
-                      if (char === 'y' || char === 'Y') {
-                        this.printlsInline(suggestions);
-                      }
-                    })
-                  );
-                }
-              }
-            );
+        this.setAcceptError(error);
+      } else {
+        this.handleReadComplete(input);
+      }
+    };
 
-            // ...else, insert tab.
-          } else {
-            this.handleCursorInsert('\t');
+    // Thrown validation errors refuse the input as well.
+    const validate = (complete: boolean) => {
+      if (complete && validator) {
+        settle(
+          () => validator(input),
+          (error) => accept(true, error || null),
+          (error) => {
+            accept(
+              true,
+              error instanceof Error ? error.message : String(error)
+            );
           }
-          break;
-
-        // Ctrl + C.
-        case '\x03':
-          const prompt = {
-            ...{ ps1: '', ps2: '' },
-            ...this.activePrompt,
-          };
-
-          this.setCursor(this.input.length);
-          this.terminal.write('^C\r\n' + prompt.ps1);
+        );
+      } else {
+        accept(complete, null);
+      }
+    };
 
-          this.cursor = 0;
-          this.input = '';
+    settle(
+      () => (isComplete ? isComplete(input) : true),
+      validate,
+      (error) => {
+        console.error('Input complete error:', error);
 
-          if (this.history) this.history.rewind();
-          break;
+        validate(true);
       }
-
-      // ...else, printable character(s).
-    } else {
-      this.handleCursorInsert(data);
-    }
+    );
   }
 
   /**
-   * Handle completed read prompts.
+   * Handle editing action.
+   *
+   * @param action Editing action name.
+   * @param data   Key press data from terminal.
    */
-  private handleReadComplete() {
-    if (this.history) {
-      this.history.push(this.input);
+  private handleAction(action: EditAction, data: string) {
+    // Yank-pop is undone together w/ the yank it replaces, and pasted text
+    // as a whole.
+    if (action !== 'yank-pop' && !this.pasting) {
+      this.undoStack.begin(this.getUndoGroup(action, data));
     }
 
-    if (this.activePrompt) {
-      this.activePrompt.resolve(this.input);
+    switch (action) {
+      case 'accept-line':
+        this.handleAcceptLine();
+        break;
 
-      this.activePrompt = null;
-    }
+      case 'backward-char':
+        this.handleCursorMove(-1);
+        break;
 
-    this.terminal.write('\r\n');
+      case 'backward-delete-char':
+        this.handleCursorErase(true);
+        break;
 
-    this.active = false;
-  }
+      case 'backward-kill-word':
+        this.handleKill(getWord(this.input, this.cursor, true), this.cursor);
+        break;
 
-  /**
-   * Handle terminal input.
-   *
-   * @param input Input string.
-   */
-  private handleTermData(input: string) {
-    if (!this.active) {
-      return;
-    }
+      case 'backward-word':
+        this.setCursor(getWord(this.input, this.cursor, true));
+        break;
 
-    // If active character prompt found, resolve it.
-    if (this.activePromptChar !== null) {
-      this.activePromptChar.resolve(input);
+      case 'beginning-of-line':
+        this.setCursor(0);
+        break;
 
-      this.activePromptChar = null;
+      case 'complete':
+        this.handleTabComplete();
+        break;
 
-      return this.terminal.write('\r\n');
-    }
+      case 'delete-char':
+        this.handleCursorErase(false);
+        break;
 
-    // If pasted input, normalize and process each character...
-    if (input.length > 3 && input.charCodeAt(0) !== 0x1b) {
-      const pasted = input.replace(/[\r\n]+/g, '\r');
+      case 'end-of-line':
+        if (!this.handleSuggestionAccept(false)) {
+          this.setCursor(this.input.length);
+        }
+        break;
 
-      Array.from(pasted).forEach((char) => this.handleData(char));
+      case 'forward-char':
+        if (!this.handleSuggestionAccept(false)) {
+          this.handleCursorMove(1);
+        }
+        break;
 
-      // ...else, process input data.
-    } else {
-      this.handleData(input);
-    }
-  }
+      case 'forward-search-history':
+        this.handleSearchStart(false);
+        break;
 
-  /**
-   * Clear the current prompt, update terminal size, and re-render prompt.
-   *
-   * @param size Terminal size object.
-   */
-  private handleTermResize(size: TerminalSize) {
-    this.clearInput();
+      case 'forward-word':
+        if (!this.handleSuggestionAccept(true)) {
+          this.setCursor(getWord(this.input, this.cursor, false));
+        }
+        break;
 
-    this.terminalSize = size;
+      case 'history-search-backward':
+        this.handleHistorySearch(true);
+        break;
+
+      case 'history-search-forward':
+        this.handleHistorySearch(false);
+        break;
+
+      case 'interrupt':
+        // Cancel pending autosuggestion, and clear it before printing ^C.
+        this.clearSuggestion();
+        this.setCursor(this.input.length);
+        this.terminal.write('^C\r\n\x1B[J');
+
+        this.acceptError = null;
+        this.cursor = 0;
+        this.input = '';
+        this.historyPrefix = null;
+        this.pasteQueue = [];
+        this.undoStack.reset();
+
+        if (this.history) this.history.reset();
+
+        this.renderer.reset();
+        this.render();
+        break;
+
+      case 'kill-line':
+        this.handleKill(this.cursor, this.input.length);
+        break;
+
+      case 'kill-whole-line':
+        this.handleKill(0, this.input.length);
+        break;
+
+      case 'kill-word':
+        this.handleKill(this.cursor, getWordEnd(this.input, this.cursor));
+        break;
+
+      case 'next-history':
+        if (this.history) {
+          const next = this.history.getNext('', this.input);
+
+          if (next !== undefined) {
+            this.setInput(next, next.length);
+          }
+        }
+        break;
+
+      case 'previous-history':
+        if (this.history) {
+          const prev = this.history.getPrev('', this.input);
+
+          if (prev !== undefined) {
+            this.setInput(prev, prev.length);
+          }
+        }
+        break;
+
+      case 'reverse-search-history':
+        this.handleSearchStart(true);
+        break;
+
+      case 'self-insert':
+        this.handleCursorInsert(data);
+        break;
+
+      case 'redo':
+        this.handleUndo(true);
+        break;
+
+      case 'transpose-chars':
+        this.handleTranspose();
+        break;
+
+      case 'undo':
+        this.handleUndo(false);
+        break;
+
+      case 'unix-line-discard':
+        this.handleKill(0, this.cursor);
+        break;
+
+      case 'unix-word-rubout': {
+        const before = this.input.substring(0, this.cursor);
+
+        this.handleKill(before.search(/\S*\s*$/), this.cursor);
+        break;
+      }
+
+      case 'vi-append-eol':
+        this.setCursor(this.input.length);
+        this.keymapName = 'vi-insert';
+        break;
+
+      case 'vi-append-mode':
+        this.handleCursorMove(1);
+        this.keymapName = 'vi-insert';
+        break;
+
+      case 'vi-change-line':
+        this.handleKill(0, this.input.length);
+        this.keymapName = 'vi-insert';
+        break;
+
+      case 'vi-change-to-eol':
+        this.handleKill(this.cursor, this.input.length);
+        this.keymapName = 'vi-insert';
+        break;
+
+      case 'vi-insert-beg':
+        this.setCursor(0);
+        this.keymapName = 'vi-insert';
+        break;
+
+      case 'vi-insertion-mode':
+        this.keymapName = 'vi-insert';
+        break;
+
+      case 'vi-movement-mode':
+        this.handleCursorMove(-1);
+        this.keymapName = 'vi-command';
+        break;
+
+      case 'vi-put':
+        this.handleCursorMove(1);
+        this.handleYank();
+        break;
+
+      case 'yank':
+        this.handleYank();
+        break;
+
+      case 'yank-pop':
+        this.handleYankPop();
+        break;
+    }
 
-    this.setInput(this.input, false);
+    this.lastAction = action;
   }
 
   /**
-   * Set new cursor position as an offset of the current input string.
+   * Insert character(s) at current cursor offset.
    *
-   * @param offset Input cursor offset.
+   * @param input Input string.
    */
-  private setCursor(offset: number) {
-    // Make sure cursor offset isn't outside input length.
-    if (offset < 0) {
-      offset = 0;
+  private handleCursorInsert(input: string) {
+    this.setInput(
+      this.input.substring(0, this.cursor) +
+        input +
+        this.input.substring(this.cursor),
+      this.cursor + input.length
+    );
+  }
+
+  /**
+   * Move cursor w/ respect to current cursor offset.
+   *
+   * @param offset Cursor movement offset, in grapheme clusters.
+   */
+  private handleCursorMove(offset: number) {
+    let cursor = this.cursor;
+
+    // If positive offset, move cursor forward...
+    for (let i = 0; i < offset; i++) {
+      cursor = getGraphemeBoundary(this.input, cursor, false);
     }
 
-    if (offset > this.input.length) {
-      offset = this.input.length;
+    // ...else, if negative offset, move cursor back.
+    for (let i = 0; i > offset; i--) {
+      cursor = getGraphemeBoundary(this.input, cursor, true);
     }
 
-    const prompt = this.applyPrompt(this.input);
+    this.setCursor(cursor);
+  }
 
-    // Get previous cursor position.
-    const cursorPrev = this.applyPromptOffset(this.input, this.cursor);
-    const { col: colPrev, row: rowPrev } = getColRow(
-      prompt,
-      cursorPrev,
-      this.terminalSize.cols
-    );
+  /**
+   * Erase a grapheme cluster at cursor location
+   *
+   * @param bksp Backspace key press.
+   */
+  private handleCursorErase(bksp: boolean) {
+    // If backspace key press, erase before cursor, else erase at cursor.
+    const start = bksp
+      ? getGraphemeBoundary(this.input, this.cursor, true)
+      : this.cursor;
+    const end = bksp
+      ? this.cursor
+      : getGraphemeBoundary(this.input, this.cursor, false);
+
+    if (start === end) {
+      return;
+    }
 
-    // Get new cursor position.
-    const cursorNew = this.applyPromptOffset(this.input, offset);
-    const { col: colNew, row: rowNew } = getColRow(
-      prompt,
-      cursorNew,
-      this.terminalSize.cols
+    this.setInput(
+      this.input.substring(0, start) + this.input.substring(end),
+      start
     );
+  }
 
-    // If new number of rows greater than previous number, move down...
-    if (rowNew > rowPrev) {
-      for (let i = rowPrev; i < rowNew; ++i) {
-        this.terminal.write('\x1B[B');
+  /**
+   * Get autosuggestion for current input from providers, in order, and
+   * re-render input if it changed.
+   */
+  private async handleAutosuggest() {
+    const controller = new AbortController();
+    const input = this.input;
+
+    this.autosuggestController?.abort();
+    this.autosuggestController = controller;
+
+    let suggestion: string | null = null;
+
+    if (input.trim()) {
+      for (const provider of this.autosuggestProviders) {
+        try {
+          suggestion = await provider.suggest(input, controller.signal);
+        } catch (error) {
+          suggestion = null;
+        }
+
+        // Only suggestions that extend the input are displayed.
+        if (
+          suggestion &&
+          suggestion.startsWith(input) &&
+          suggestion !== input
+        ) {
+          break;
+        }
+
+        suggestion = null;
       }
+    }
+
+    // If cancelled, or input changed since, ignore suggestion.
+    if (controller.signal.aborted || !this.active || this.input !== input) {
+      return;
+    }
+
+    if (suggestion !== this.suggestion) {
+      this.suggestion = suggestion;
+
+      this.render();
+    }
+  }
 
-      // ...else, move up.
+  /**
+   * Handle input data from terminal based on key press.
+   *
+   * @param data Key press data from terminal.
+   */
+  private handleData(data: string) {
+    // If no prompt(s) active, return.
+    if (!this.active) {
+      return;
+    }
+
+    // If history search in progress, handle search input.
+    if (this.search) {
+      return this.handleSearchData(data);
+    }
+
+    // If completion menu displayed, handle menu input.
+    if (this.menu) {
+      return this.handleMenuData(data);
+    }
+
+    const action = this.keymaps[this.keymapName].resolve(data);
+
+    if (action) {
+      this.handleAction(action, data);
+    }
+  }
+
+  /**
+   * Handle bracketed pasted text according to the paste policy -- inserted
+   * as literal text, or run line by line, if confirmed for `confirm`.
+   *
+   * @param text Pasted text.
+   */
+  private handlePaste(text: string) {
+    const pasted = getPastedText(text);
+
+    if (!this.active || this.activePromptChar !== null || !pasted) {
+      return;
+    }
+
+    const lines = pasted.split('\n');
+
+    // If single line, or insert policy, insert pasted text as a whole...
+    if (lines.length === 1 || this.pastePolicy === 'insert') {
+      this.undoStack.begin(null);
+      this.handleCursorInsert(pasted);
+
+      // ...else, if run policy, run each line...
+    } else if (this.pastePolicy === 'run') {
+      this.pasteQueue = lines;
+      this.handlePasteQueue();
+
+      // ...else, ask once before running the lines.
     } else {
-      for (let i = rowNew; i < rowPrev; ++i) {
-        this.terminal.write('\x1B[A');
+      const cursor = this.cursor;
+      const count = lines.filter((e) => e.trim()).length;
+
+      this.setCursor(this.input.length);
+      this.terminal.write('\r\n');
+
+      this.readChar(`Run ${count} pasted lines? (y/n) `)
+        .then((char) => {
+          this.renderer.reset();
+          this.setInput(this.input, cursor);
+
+          if (char === 'y' || char === 'Y') {
+            this.pasteQueue = lines;
+            this.handlePasteQueue();
+          }
+        })
+        .catch(() => {
+          this.pasteQueue = [];
+
+          // If prompt aborted w/ read prompt still active, restore input.
+          if (this.activePrompt) {
+            this.renderer.reset();
+            this.setInput(this.input, cursor);
+          }
+        });
+    }
+  }
+
+  /**
+   * Split terminal input into bracketed pasted text and other input, and
+   * buffer pasted text until the paste ends.
+   *
+   * @param input Input string.
+   */
+  private handlePasteData(input: string) {
+    let data = input;
+
+    while (data) {
+      // If not pasting, process input until a paste starts...
+      if (this.pasteBuffer === null) {
+        const start = data.indexOf(PASTE_START);
+
+        if (start === -1) {
+          return this.handleKeyData(data);
+        }
+
+        if (start > 0) {
+          this.handleKeyData(data.substring(0, start));
+        }
+
+        this.pasteBuffer = '';
+
+        data = data.substring(start + PASTE_START.length);
+
+        // ...else, buffer pasted text until the paste ends.
+      } else {
+        const end = data.indexOf(PASTE_END);
+
+        if (end === -1) {
+          this.pasteBuffer += data;
+
+          return;
+        }
+
+        const text = this.pasteBuffer + data.substring(0, end);
+
+        this.pasteBuffer = null;
+        this.handlePaste(text);
+
+        data = data.substring(end + PASTE_END.length);
       }
     }
+  }
+
+  /**
+   * Insert the next pasted line, and accept it unless it's the last line --
+   * the following line is inserted once the input continues on a new line,
+   * or the next read starts.
+   */
+  private handlePasteQueue() {
+    if (!this.activePrompt || !this.pasteQueue.length) {
+      return;
+    }
 
-    // If new number of columns greater than previous number, move right...
-    if (colNew > colPrev) {
-      for (let i = colPrev; i < colNew; ++i) {
-        this.terminal.write('\x1B[C');
+    const line = this.pasteQueue.shift() as string;
+
+    this.undoStack.begin(null);
+    this.handleCursorInsert(line);
+
+    if (this.pasteQueue.length) {
+      this.handleAction('accept-line', '\r');
+    }
+  }
+
+  /**
+   * Move through history items starting w/ the input before the cursor when
+   * browsing started.
+   *
+   * @param reverse Move from newer to older items.
+   */
+  private handleHistorySearch(reverse: boolean) {
+    if (this.historyPrefix === null) {
+      this.historyPrefix = this.input.substring(0, this.cursor);
+    }
+
+    const prefix = this.historyPrefix;
+    const item = reverse
+      ? this.history.getPrev(prefix, this.input)
+      : this.history.getNext(prefix, this.input);
+
+    // If no item found and not browsing, start over next time.
+    if (item === undefined) {
+      if (!this.history.isBrowsing()) {
+        this.historyPrefix = null;
       }
 
-      // ...else, move left.
+      return;
+    }
+
+    // If draft restored, stop browsing...
+    if (!this.history.isBrowsing()) {
+      this.historyPrefix = null;
+
+      this.setInput(item, prefix.length);
+
+      // ...else, keep cursor position, or move to end if no prefix.
     } else {
-      for (let i = colNew; i < colPrev; ++i) {
-        this.terminal.write('\x1B[D');
+      this.historyBrowsing = true;
+      this.setInput(item, prefix ? prefix.length : item.length);
+      this.historyBrowsing = false;
+    }
+  }
+
+  /**
+   * Handle terminal input other than bracketed pasted text.
+   *
+   * @param input Input string.
+   */
+  private handleKeyData(input: string) {
+    if (!this.active) {
+      return;
+    }
+
+    // If active character prompt found, resolve it.
+    if (this.activePromptChar !== null) {
+      this.activePromptChar.resolve(input);
+
+      this.activePromptChar = null;
+
+      return this.terminal.write('\r\n');
+    }
+
+    const multiple = input.length > 1 && input.charCodeAt(0) !== 0x1b;
+
+    // If bracketed paste disabled, guess pasted input by length, and
+    // normalize and process each character...
+    if (!this.bracketedPaste && multiple && input.length > 3) {
+      const pasted = input.replace(/[\r\n]+/g, '\r');
+
+      this.undoStack.begin(null);
+      this.pasting = true;
+
+      Array.from(pasted).forEach((char) => this.handleData(char));
+
+      this.pasting = false;
+
+      // ...else, if characters typed faster than sent, process each one...
+    } else if (multiple) {
+      Array.from(input).forEach((char) => this.handleData(char));
+
+      // ...else, process input data.
+    } else {
+      this.handleData(input);
+    }
+  }
+
+  /**
+   * Remove text between defined offsets and push it to the kill ring --
+   * merged w/ the previous kill if consecutive.
+   *
+   * @param start Start offset.
+   * @param end   End offset.
+   */
+  private handleKill(start: number, end: number) {
+    if (start >= end) {
+      return;
+    }
+
+    const merge =
+      this.lastAction !== null && KILL_ACTIONS.includes(this.lastAction);
+
+    this.killRing.push(
+      this.input.substring(start, end),
+      merge,
+      end <= this.cursor
+    );
+
+    this.setInput(
+      this.input.substring(0, start) + this.input.substring(end),
+      start
+    );
+  }
+
+  /**
+   * Handle completed read prompts -- history policies apply to the input as
+   * typed, and the read prompt resolves w/ the normalized input.
+   *
+   * @param input Input string.
+   */
+  private handleReadComplete(input: string) {
+    let expanded = input;
+
+    this.clearSuggestion();
+
+    if (this.acceptError) {
+      this.setAcceptError(null);
+    }
+
+    // If history expansion enabled, expand history references...
+    if (this.historyExpansion) {
+      try {
+        expanded = expandHistory(input, this.history.items);
+      } catch (error) {
+        return this.handleExpansionError(error as HistoryExpansionError);
+      }
+
+      // ...and if verify enabled, put expanded input back for editing.
+      if (expanded !== input && this.historyVerify) {
+        this.setInput(expanded, expanded.length);
+
+        return;
       }
     }
 
-    // Set offset.
-    this.cursor = offset;
+    if (this.history) {
+      this.history.push(expanded);
+    }
+
+    this.historyPrefix = null;
+    this.cancelTabComplete();
+
+    // Move cursor to end of input, so output starts below it.
+    this.setCursor(this.input.length);
+    this.terminal.write('\r\n');
+
+    // If history references expanded, print expanded input.
+    if (expanded !== input) {
+      this.println(expanded);
+    }
+
+    if (this.activePrompt) {
+      const normalize = this.activePrompt.normalize;
+
+      this.activePrompt.resolve(normalize ? normalize(expanded) : expanded);
+
+      this.activePrompt = null;
+    }
+
+    this.active = false;
   }
 
   /**
-   * Set defined input w/ previous input or replace previous input.
+   * Select defined completion menu item, and replace the fragment before the
+   * cursor w/ it.
    *
-   * @param input      Input string.
-   * @param clearInput Clear current input before writing.
+   * @param menu  Completion menu state.
+   * @param index Index of the item to select.
    */
-  private async setInput(input: string, clearInput = true) {
-    // Clear current input?
-    if (clearInput) {
-      this.clearInput();
+  private handleMenu(menu: MenuState, index: number) {
+    index = Math.min(Math.max(index, 0), menu.items.length - 1);
+
+    const [input, cursor] = getTabCompleted(
+      menu.context,
+      getTabInsert(menu.items[index])
+    );
+
+    this.setMenu({ ...menu, index }, input, cursor);
+  }
+
+  /**
+   * Handle input data from terminal while completion menu is displayed.
+   *
+   * @param data Key press data from terminal.
+   */
+  private handleMenuData(data: string) {
+    const menu = this.menu as MenuState;
+    const columns = this.getMenuColumns(menu);
+    const last = menu.items.length - 1;
+
+    switch (data) {
+      // Tab, or right arrow.
+      case '\t':
+      case '\x1B[C':
+      case '\x1BOC':
+        this.handleMenu(menu, menu.index < last ? menu.index + 1 : 0);
+        break;
+
+      // Shift + Tab, or left arrow.
+      case '\x1B[Z':
+      case '\x1B[D':
+      case '\x1BOD':
+        this.handleMenu(menu, menu.index > 0 ? menu.index - 1 : last);
+        break;
+
+      // Down arrow.
+      case '\x1B[B':
+      case '\x1BOB':
+        this.handleMenu(menu, menu.index + columns);
+        break;
+
+      // Up arrow.
+      case '\x1B[A':
+      case '\x1BOA':
+        this.handleMenu(menu, menu.index - columns);
+        break;
+
+      // Enter.
+      case '\r':
+        this.handleMenuEnd(true);
+        break;
+
+      // Escape, or Ctrl + G.
+      case '\x1B':
+      case '\x07':
+        this.handleMenuEnd(false);
+        break;
+
+      // Else, accept selected item and handle key press.
+      default:
+        this.handleMenuEnd(true);
+        this.handleData(data);
     }
+  }
 
-    // Make sure cursor offset isn't outside input length.
-    if (this.cursor > input.length) {
-      this.cursor = input.length;
+  /**
+   * Clear completion menu, accepting the selected item or restoring the input
+   * from before the menu was displayed.
+   *
+   * @param accept Accept selected item.
+   */
+  private handleMenuEnd(accept: boolean) {
+    const menu = this.menu as MenuState;
+
+    if (accept) {
+      this.setMenu(null, this.input, this.cursor);
+    } else {
+      this.setMenu(null, menu.context.input, menu.context.cursor);
+    }
+  }
+
+  /**
+   * Search history for defined search state query, starting from defined
+   * history index, and display matching item.
+   *
+   * @param search Search state.
+   * @param start  History index to start search from.
+   */
+  private handleSearch(search: SearchState, start: number) {
+    const last = this.history.items.length - 1;
+    const index = search.query
+      ? this.history.search(
+          search.query,
+          search.reverse ? Math.min(start, last) : Math.max(start, 0),
+          search.reverse
+        )
+      : -1;
+
+    // If no match found, keep previous match...
+    if (index === -1) {
+      this.setSearch(
+        { ...search, failed: search.query !== '' },
+        this.input,
+        this.cursor
+      );
+
+      // ...else, display matching item w/ cursor at match.
+    } else {
+      const item = this.history.items[index];
+
+      this.setSearch(
+        { ...search, failed: false, index },
+        item,
+        item.indexOf(search.query)
+      );
     }
+  }
 
-    const cursor = this.applyPromptOffset(input, this.cursor);
-    const prompt = this.applyPrompt(input);
+  /**
+   * Handle input data from terminal while history search is in progress.
+   *
+   * @param data Key press data from terminal.
+   */
+  private handleSearchData(data: string) {
+    const search = this.search as SearchState;
+
+    switch (data) {
+      // Ctrl + R, or Ctrl + S.
+      case '\x12':
+      case '\x13': {
+        const reverse = data === '\x12';
+        const query = search.query || this.searchQuery;
+
+        this.handleSearch(
+          { ...search, query, reverse },
+          reverse ? search.index - 1 : search.index + 1
+        );
+        break;
+      }
 
-    // Print input to terminal.
-    this.print(prompt);
+      // Backspace.
+      case '\x7F':
+      case '\x08':
+        this.handleSearch(
+          { ...search, query: search.query.slice(0, -1) },
+          search.index
+        );
+        break;
+
+      // Enter.
+      case '\r':
+        this.handleSearchEnd(true);
+        this.handleAction('accept-line', data);
+        break;
+
+      // Escape, or Ctrl + G.
+      case '\x1B':
+      case '\x07':
+        this.handleSearchEnd(false);
+        break;
+
+      default:
+        // If printable character(s), extend query...
+        if (!/[\x00-\x1F\x7F]/.test(data)) {
+          this.handleSearch(
+            { ...search, query: search.query + data },
+            search.index
+          );
+
+          // ...else, accept match and handle key press.
+        } else {
+          this.handleSearchEnd(true);
+          this.handleData(data);
+        }
+    }
+  }
 
-    const { col, row } = getColRow(prompt, cursor, this.terminalSize.cols);
-    const trailingChars = prompt
-      .replace(ansiRegex(), '')
-      .substring(cursor).length;
+  /**
+   * End history search, accepting the current match or restoring the input
+   * from before the search.
+   *
+   * @param accept Accept current match.
+   */
+  private handleSearchEnd(accept: boolean) {
+    const search = this.search as SearchState;
 
-    // If trailing characters found, check if they wrap...
-    if (trailingChars) {
-      const offset = cursor % this.terminalSize.cols;
+    if (accept) {
+      this.searchQuery = search.query || this.searchQuery;
 
-      if (offset + trailingChars === this.terminalSize.cols) {
-        this.terminal.write('\x1B[E');
+      this.setSearch(null, this.input, this.cursor);
+    } else {
+      this.setSearch(null, search.input, search.cursor);
+    }
+  }
+
+  /**
+   * Start incremental history search.
+   *
+   * @param reverse Search from newer to older items.
+   */
+  private handleSearchStart(reverse: boolean) {
+    this.setSearch(
+      {
+        cursor: this.cursor,
+        failed: false,
+        index: reverse ? this.history.items.length : -1,
+        input: this.input,
+        query: '',
+        reverse,
+      },
+      this.input,
+      this.cursor
+    );
+  }
+
+  /**
+   * Handle history expansion error by rejecting the active prompt, or by
+   * printing the error and prompting again.
+   *
+   * @param error History expansion error.
+   */
+  private handleExpansionError(error: HistoryExpansionError) {
+    this.setCursor(this.input.length);
+    this.terminal.write('\r\n');
+
+    if (this.historyExpansionError === 'reject') {
+      if (this.activePrompt) {
+        this.activePrompt.reject(error);
+
+        this.activePrompt = null;
       }
 
-      // ...else, maybe wrap to newline.
+      this.active = false;
     } else {
-      if (row !== 0 && col === 0) {
-        this.terminal.write('\x1B[E');
+      this.println(error.message);
+
+      this.cursor = 0;
+      this.input = '';
+      this.historyPrefix = null;
+      this.suggestion = null;
+
+      this.history.reset();
+
+      this.renderer.reset();
+      this.render();
+    }
+  }
+
+  /**
+   * Complete argument fragment before the cursor w/ defined text.
+   *
+   * @param context Tab complete context.
+   * @param text    Completed argument text.
+   * @param suffix  Text appended after the completed argument.
+   */
+  private handleTabCompleted(
+    context: TabCompleteContext,
+    text: string,
+    suffix = ''
+  ) {
+    const [input, cursor] = getTabCompleted(context, text, suffix);
+
+    this.setInput(input, cursor);
+  }
+
+  /**
+   * Accept displayed autosuggestion, or its next word, if the cursor is at the
+   * end of the input.
+   *
+   * @param word Accept next word only.
+   */
+  private handleSuggestionAccept(word: boolean) {
+    const ghost = this.getGhost(this.input);
+
+    if (!ghost || this.cursor !== this.input.length) {
+      return false;
+    }
+
+    const suggestion = this.input + ghost;
+    const end = word ? getWordEnd(suggestion, this.cursor) : suggestion.length;
+
+    this.handleCursorInsert(suggestion.substring(this.cursor, end));
+
+    return true;
+  }
+
+  /**
+   * Check tab complete handlers for suggestions and complete current input.
+   */
+  private handleTabComplete() {
+    // If no tab complete handlers found, insert tab.
+    if (!this.tabCompleteHandlers.length) {
+      this.handleCursorInsert('\t');
+
+      return;
+    }
+
+    const request = this.tabCompleteRequest;
+
+    // If tab complete for the same input is pending, wait for it.
+    if (
+      request &&
+      request.cursor === this.cursor &&
+      request.input === this.input
+    ) {
+      return;
+    }
+
+    const controller = new AbortController();
+    const input = this.input.substring(0, this.cursor);
+    const context = getTabContext(this.input, this.cursor, controller.signal);
+
+    // Cancel previous tab complete, if any.
+    this.cancelTabComplete();
+
+    this.tabCompleteRequest = {
+      controller,
+      cursor: this.cursor,
+      input: this.input,
+    };
+
+    this.getSuggestions(controller.signal).then((result) => {
+      const { failed, items: suggestions } = result;
+
+      // If cancelled, ignore suggestions.
+      if (controller.signal.aborted) {
+        return;
+      }
+
+      this.tabCompleteRequest = null;
+
+      // If cursor moved since, suggestions are stale.
+      if (this.cursor !== input.length) {
+        return;
       }
+
+      // If no suggestions found, check for trailing whitespace...
+      if (suggestions.length === 0) {
+        const whitespace = hasTrailingWhitespace(input);
+
+        // If no trailing whitespace found and no handler failed, insert tab.
+        if (!whitespace && !failed) {
+          this.handleCursorInsert('\t');
+        }
+
+        // ...else, if only one suggestion found append to input...
+      } else if (suggestions.length === 1) {
+        this.handleTabCompleted(
+          context,
+          getTabInsert(suggestions[0]),
+          getTabSuffix(suggestions[0])
+        );
+
+        // ...else, if completion menu enabled display it...
+      } else if (this.tabCompleteMenu) {
+        this.handleMenu({ context, index: 0, items: suggestions }, 0);
+
+        // ...else, if number of suggestions less than maximum print list...
+      } else if (suggestions.length <= this.tabCompleteSize) {
+        const shared = getTabShared(
+          context.fragment,
+          suggestions.map(getTabInsert),
+          this.tabCompleteMatch !== 'prefix'
+        );
+
+        // If shared fragment found, complete input w/ it.
+        if (shared !== null && shared !== context.fragment) {
+          this.handleTabCompleted(context, shared);
+        }
+
+        this.applyPromptComplete(() => {
+          this.printlsSuggestions(suggestions);
+        });
+
+        // ...else, print display all suggestions prompt.
+      } else {
+        this.applyPromptComplete(() =>
+          this.readChar(
+            `Do you wish to see all ${suggestions.length} possibilities? (y/n) `
+          ).then((char) => {
+            if (char === 'y' || char === 'Y') {
+              this.printlsSuggestions(suggestions);
+            }
+          })
+        );
+      }
+    });
+  }
+
+  /**
+   * Handle terminal input.
+   *
+   * @param input Input string.
+   */
+  private handleTermData(input: string) {
+    // If bracketed paste enabled, split pasted text from other input...
+    if (this.bracketedPaste) {
+      this.handlePasteData(input);
+
+      // ...else, process input data.
+    } else {
+      this.handleKeyData(input);
+    }
+  }
+
+  /**
+   * Clear the current prompt, update terminal size, and re-render prompt.
+   *
+   * @param size Terminal size object.
+   */
+  private handleTermResize(size: TerminalSize) {
+    this.terminalSize = size;
+
+    // If no prompt(s) active, return.
+    if (!this.active) {
+      return;
+    }
+
+    // Terminal reflows wrapped rows on resize, so clear using the new size.
+    this.clearInput();
+    this.render();
+  }
+
+  /**
+   * Transpose grapheme clusters before and at cursor offset, or the last two
+   * when cursor is at the end of the input.
+   */
+  private handleTranspose() {
+    let cursor = this.cursor;
+
+    if (cursor === 0 || this.input.length < 2) {
+      return;
+    }
+
+    if (cursor === this.input.length) {
+      cursor = getGraphemeBoundary(this.input, cursor, true);
+    }
+
+    const start = getGraphemeBoundary(this.input, cursor, true);
+    const end = getGraphemeBoundary(this.input, cursor, false);
+
+    this.setInput(
+      this.input.substring(0, start) +
+        this.input.substring(cursor, end) +
+        this.input.substring(start, cursor) +
+        this.input.substring(end),
+      end
+    );
+  }
+
+  /**
+   * Restore input and cursor offset before the last edit, or the last undo.
+   *
+   * @param redo Redo the last undo, instead of undoing the last edit.
+   */
+  private handleUndo(redo: boolean) {
+    const current = { cursor: this.cursor, input: this.input };
+    const state = redo
+      ? this.undoStack.redo(current)
+      : this.undoStack.undo(current);
+
+    if (!state) {
+      return;
+    }
+
+    this.undoing = true;
+    this.setInput(state.input, state.cursor);
+    this.undoing = false;
+  }
+
+  /**
+   * Insert most recently killed text at cursor offset.
+   */
+  private handleYank() {
+    const text = this.killRing.yank();
+
+    this.yanked = null;
+
+    if (text) {
+      this.handleCursorInsert(text);
+
+      this.yanked = { end: this.cursor, start: this.cursor - text.length };
+    }
+  }
+
+  /**
+   * Replace text inserted by the previous yank w/ the previous kill ring
+   * item -- only if the previous action yanked.
+   */
+  private handleYankPop() {
+    const yanked = this.yanked;
+    const last = this.lastAction;
+
+    if (
+      !yanked ||
+      !(last === 'yank' || last === 'yank-pop' || last === 'vi-put')
+    ) {
+      return;
     }
 
-    const lines = getLineCount(prompt, this.terminalSize.cols);
-    const moveUp = lines - (row + 1);
+    const text = this.killRing.rotate() ?? '';
+
+    this.setInput(
+      this.input.substring(0, yanked.start) +
+        text +
+        this.input.substring(yanked.end),
+      yanked.start + text.length
+    );
 
-    // Move cursor to beginning of current row then right.
-    this.terminal.write('\r');
+    this.yanked = { end: yanked.start + text.length, start: yanked.start };
+  }
 
-    for (let i = 0; i < moveUp; i++) {
-      this.terminal.write('\x1B[F');
+  /**
+   * Render prompt and current input, w/ dimmed autosuggestion, and completion
+   * menu or accept error below it.
+   */
+  private render() {
+    const ghost = this.getGhost(this.input);
+    const layout = this.getLayout(this.input + ghost);
+    const output = this.applyPrompt(
+      this.applyHighlight(this.input) + (ghost ? `\x1B[2m${ghost}\x1B[22m` : '')
+    );
+
+    let rows: string[] = [];
+
+    // If completion menu or accept error displayed, print it below the input.
+    if (this.menu) {
+      rows = this.getMenuRows(this.menu, layout);
+    } else if (this.acceptError) {
+      rows = this.getErrorRows(this.acceptError);
     }
 
-    for (let i = 0; i < col; i++) {
-      this.terminal.write('\x1B[C');
+    this.renderer.render(
+      { cursor: layout.getPosition(this.cursor), output, rows },
+      this.terminalSize.cols
+    );
+  }
+
+  /**
+   * Set new cursor position as an offset of the current input string.
+   *
+   * @param offset Input cursor offset.
+   */
+  private setCursor(offset: number) {
+    // Make sure cursor offset isn't outside input length.
+    this.cursor = Math.min(Math.max(offset, 0), this.input.length);
+
+    this.render();
+  }
+
+  /**
+   * Set accept error message and re-render input.
+   *
+   * @param error Error message, or null to clear error.
+   */
+  private setAcceptError(error: string | null) {
+    this.acceptError = error;
+
+    this.render();
+  }
+
+  /**
+   * Set completion menu state and re-render input.
+   *
+   * @param menu   Completion menu state, or null to clear menu.
+   * @param input  Input string.
+   * @param cursor Input cursor offset.
+   */
+  private setMenu(menu: MenuState | null, input: string, cursor: number) {
+    this.menu = menu;
+
+    this.setInput(input, cursor);
+  }
+
+  /**
+   * Set history search state and re-render input.
+   *
+   * @param search Search state, or null to end search.
+   * @param input  Input string.
+   * @param cursor Input cursor offset.
+   */
+  private setSearch(search: SearchState | null, input: string, cursor: number) {
+    this.search = search;
+
+    this.setInput(input, cursor);
+  }
+
+  /**
+   * Set defined input and cursor offset, and render changes to the previous
+   * input.
+   *
+   * @param input  Input string.
+   * @param cursor Input cursor offset.
+   */
+  private async setInput(input: string, cursor = this.cursor) {
+    const changed = input !== this.input;
+
+    // If input changed, save previous input for undo.
+    if (changed && !this.undoing) {
+      this.undoStack.push({ cursor: this.cursor, input: this.input });
+    }
+
+    // If input changed, pending tab complete suggestions and accept error
+    // are stale.
+    if (changed) {
+      this.acceptError = null;
+      this.cancelTabComplete();
+    }
+
+    // If input edited, prefix history search starts over w/ the new input.
+    if (changed && !this.historyBrowsing) {
+      this.historyPrefix = null;
     }
 
-    // Set input.
+    // Make sure cursor offset isn't outside input length.
+    this.cursor = Math.min(Math.max(cursor, 0), input.length);
     this.input = input;
+
+    this.render();
+
+    // If autosuggestions enabled and input changed, update autosuggestion.
+    if (this.autosuggest && changed) {
+      this.handleAutosuggest();
+    }
   }
 }
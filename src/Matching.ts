@@ -0,0 +1,80 @@
+export type MatchStrategy = 'fuzzy' | 'ignorecase' | 'prefix' | 'substring';
+
+/**
+ * Get score of fuzzy subsequence match, case-insensitive -- consecutive
+ * characters and characters at the beginning of words score higher, and gaps
+ * lower.
+ *
+ * @param candidate Candidate string.
+ * @param fragment  Fragment string.
+ */
+function getFuzzyScore(candidate: string, fragment: string) {
+  const haystack = candidate.toLowerCase();
+  const needle = fragment.toLowerCase();
+
+  let prev = -1;
+  let score = 0;
+
+  for (const char of needle) {
+    const index = haystack.indexOf(char, prev + 1);
+
+    if (index === -1) {
+      return null;
+    }
+
+    // Characters at the beginning of words.
+    if (index === 0 || /[^\p{L}\p{N}]/u.test(candidate.charAt(index - 1))) {
+      score += 3;
+    }
+
+    // Consecutive characters, else penalize gap (leading gap less so).
+    if (prev === -1) {
+      score -= Math.min(index, 3);
+    } else if (index === prev + 1) {
+      score += 2;
+    } else {
+      score -= index - prev - 1;
+    }
+
+    prev = index;
+  }
+
+  return score;
+}
+
+/**
+ * Get score of defined candidate matching defined fragment using defined
+ * strategy, or null if it doesn't match -- higher scores rank first.
+ *
+ * @param candidate Candidate string.
+ * @param fragment  Fragment string.
+ * @param strategy  Matching strategy.
+ */
+export function getMatchScore(
+  candidate: string,
+  fragment: string,
+  strategy: MatchStrategy = 'prefix'
+): number | null {
+  switch (strategy) {
+    case 'fuzzy':
+      return getFuzzyScore(candidate, fragment);
+
+    case 'ignorecase':
+      if (!candidate.toLowerCase().startsWith(fragment.toLowerCase())) {
+        return null;
+      }
+
+      // Candidates matching case rank first.
+      return candidate.startsWith(fragment) ? 1 : 0;
+
+    case 'substring': {
+      const index = candidate.toLowerCase().indexOf(fragment.toLowerCase());
+
+      // Earlier matches rank first.
+      return index === -1 ? null : -index;
+    }
+
+    default:
+      return candidate.startsWith(fragment) ? 0 : null;
+  }
+}
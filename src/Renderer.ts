@@ -0,0 +1,257 @@
+import ansiRegex from 'ansi-regex';
+
+import { CellPosition, Layout } from './Layout';
+import {
+  getActiveStyle,
+  getGraphemeWidth,
+  getGraphemes,
+  stripAnsi,
+} from './Unicode';
+
+export interface RenderFrame {
+  cursor: CellPosition;
+  output: string;
+  rows: string[];
+}
+
+interface RenderToken {
+  ansi: boolean;
+  end: number;
+  start: number;
+  text: string;
+}
+
+// Number of characters split into tokens around the first change -- escape
+// sequences and grapheme clusters are shorter.
+const TOKEN_WINDOW = 256;
+
+/**
+ * Renders prompt and input output to the terminal -- each frame is compared
+ * to the previous one, and only changed text and cursor movement are written,
+ * in a single write.
+ */
+export class Renderer {
+  private cursor: CellPosition = { col: 0, row: 0 };
+  private output = '';
+  private write: (data: string) => void;
+
+  constructor(write: (data: string) => void) {
+    this.write = write;
+  }
+
+  /**
+   * Clear rendered output, and move the cursor to the beginning of it.
+   *
+   * @param row Cursor row, if changed since rendered (e.g. reflowed on
+   *            resize).
+   */
+  clear(row = this.cursor.row): void {
+    this.write((row > 0 ? `\x1B[${row}F` : '\r') + '\x1B[J');
+    this.reset();
+  }
+
+  /**
+   * Render defined frame, replacing the previous frame.
+   *
+   * @param frame Frame w/ prompt and input output, rows displayed below it, and
+   *              cursor position.
+   * @param cols  Maximum number of columns.
+   */
+  render(frame: RenderFrame, cols: number): void {
+    const output = getFrameOutput(frame, cols);
+
+    let data = '';
+
+    // If output changed, rewrite it from the first change.
+    if (output !== this.output) {
+      const layout = new Layout(stripAnsi(output), cols);
+      const start = this.getStart(output, layout, cols);
+      const prefix = output.substring(0, start);
+
+      data += getMove(
+        this.cursor,
+        layout.getPosition(stripAnsi(prefix).length)
+      );
+
+      // If previous output continues, clear it.
+      if (start < this.output.length) {
+        data += '\x1B[J';
+      }
+
+      if (start < output.length) {
+        data +=
+          getStyle(prefix) + output.substring(start).replace(/\n/g, '\r\n');
+      }
+
+      // If rows displayed, return to the beginning of the last row...
+      if (frame.rows.length) {
+        data += '\r';
+
+        this.cursor = {
+          col: 0,
+          row: layout.wrapped ? layout.end.row - 1 : layout.end.row,
+        };
+
+        // ...else, if output ends at the last column, force wrap to the next
+        // row.
+      } else {
+        if (layout.wrapped) {
+          data += ' \r\x1B[K';
+        }
+
+        this.cursor = layout.end;
+      }
+    }
+
+    data += getMove(this.cursor, frame.cursor);
+
+    this.cursor = frame.cursor;
+    this.output = output;
+
+    if (data) {
+      this.write(data);
+    }
+  }
+
+  /**
+   * Forget rendered output, so the next frame is written in full at the
+   * cursor position.
+   */
+  reset(): void {
+    this.cursor = { col: 0, row: 0 };
+    this.output = '';
+  }
+
+  /**
+   * Get offset of the first change in defined output, w/ respect to escape
+   * sequences, grapheme clusters, and the previous output.
+   *
+   * @param output Output string.
+   * @param layout Output layout.
+   * @param cols   Maximum number of columns.
+   */
+  private getStart(output: string, layout: Layout, cols: number) {
+    const max = Math.min(output.length, this.output.length);
+
+    let common = 0;
+
+    while (common < max && output[common] === this.output[common]) {
+      common++;
+    }
+
+    // Changes start at a token boundary of both outputs.
+    const from = Math.max(common - TOKEN_WINDOW, 0);
+    const to = common + TOKEN_WINDOW;
+    const boundaries = new Set(
+      getTokens(this.output.substring(from, to)).map((e) => e.end)
+    );
+    const tokens = getTokens(output.substring(from, to)).filter((e) => {
+      return e.end <= common - from && boundaries.has(e.end);
+    });
+
+    const last = tokens[tokens.length - 1];
+    const grapheme = tokens.filter((e) => !e.ansi).pop();
+
+    // If the last unchanged grapheme cluster fills its row, rewrite it, so
+    // the terminal wraps to the next row itself.
+    if (grapheme && grapheme.text !== '\n') {
+      const start = from + grapheme.start;
+      const { col } = layout.getPosition(
+        stripAnsi(output.substring(0, start)).length
+      );
+
+      if (col + getGraphemeWidth(grapheme.text) >= cols) {
+        return start;
+      }
+    }
+
+    return from + (last ? last.end : 0);
+  }
+}
+
+/**
+ * Get output for defined frame -- rows are displayed below the prompt and
+ * input output, after an empty row if it ends at the last column (i.e. for
+ * the cursor).
+ *
+ * @param frame Frame.
+ * @param cols  Maximum number of columns.
+ */
+function getFrameOutput(frame: RenderFrame, cols: number) {
+  if (!frame.rows.length) {
+    return frame.output;
+  }
+
+  const layout = new Layout(stripAnsi(frame.output), cols);
+
+  return (
+    frame.output + (layout.wrapped ? '\n' : '') + '\n' + frame.rows.join('\n')
+  );
+}
+
+/**
+ * Get escape sequences to move the cursor between defined cell positions.
+ *
+ * @param from Current cursor position.
+ * @param to   New cursor position.
+ */
+function getMove(from: CellPosition, to: CellPosition) {
+  const move = (count: number, code: string) => {
+    if (count < 1) {
+      return '';
+    }
+
+    return count > 1 ? `\x1B[${count}${code}` : `\x1B[${code}`;
+  };
+
+  return (
+    move(to.row - from.row, 'B') +
+    move(from.row - to.row, 'A') +
+    move(to.col - from.col, 'C') +
+    move(from.col - to.col, 'D')
+  );
+}
+
+/**
+ * Get escape sequences to restore text style at the end of defined output,
+ * if it's styled.
+ *
+ * @param output Output string.
+ */
+function getStyle(output: string) {
+  if (!/\x1B\[[0-9;]*m/.test(output)) {
+    return '';
+  }
+
+  return '\x1B[0m' + getActiveStyle(output);
+}
+
+/**
+ * Split defined output into escape sequences and grapheme clusters, w/ the
+ * offsets of each.
+ *
+ * @param output Output string.
+ */
+function getTokens(output: string) {
+  const tokens: RenderToken[] = [];
+
+  let end = 0;
+
+  const push = (text: string, ansi: boolean) => {
+    tokens.push({ ansi, end: end + text.length, start: end, text });
+
+    end += text.length;
+  };
+
+  for (const match of output.matchAll(ansiRegex())) {
+    getGraphemes(output.substring(end, match.index)).forEach((e) => {
+      push(e, false);
+    });
+
+    push(match[0], true);
+  }
+
+  getGraphemes(output.substring(end)).forEach((e) => push(e, false));
+
+  return tokens;
+}
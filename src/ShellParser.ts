@@ -0,0 +1,392 @@
+export type ShellIncompleteReason =
+  | 'backslash'
+  | 'brace'
+  | 'heredoc'
+  | 'operator'
+  | 'paren'
+  | 'quote';
+
+export interface ShellToken {
+  end: number;
+  operator: boolean;
+  quote: string | null;
+  start: number;
+  value: string;
+}
+
+export interface ShellParseResult {
+  complete: boolean;
+  reason: ShellIncompleteReason | null;
+  tokens: ShellToken[];
+}
+
+interface Heredoc {
+  delimiter: string;
+  strip: boolean;
+}
+
+// Control operators, longest first.
+const OPERATORS = ['&&', '||', ';;', '|&', '|', ';', '&'];
+
+// Control operators that must be followed by another command.
+const PENDING_OPERATORS = ['&&', '||', '|', '|&'];
+
+// Contexts parsed as part of a single word, e.g. `$(a b)`.
+const SUBSTITUTIONS = ['$(', '${', '`'];
+
+const REASONS: Record<string, ShellIncompleteReason> = {
+  '"': 'quote',
+  '$(': 'paren',
+  '${': 'brace',
+  "'": 'quote',
+  '(': 'paren',
+  '`': 'quote',
+  '{': 'brace',
+};
+
+/**
+ * Shell grammar state machine -- splits input into words and control
+ * operators, and tracks open quotes, substitutions, groups, and heredocs.
+ */
+class ShellParser {
+  private backslash = false;
+  private heredocs: Heredoc[] = [];
+  private heredocOpen = false;
+  private input: string;
+  private offset = 0;
+  private stack: string[] = [];
+  private token: ShellToken | null = null;
+  private tokens: ShellToken[] = [];
+
+  constructor(input: string) {
+    this.input = input;
+  }
+
+  /**
+   * Parse input, and get tokens and completeness.
+   */
+  parse(): ShellParseResult {
+    while (this.offset < this.input.length) {
+      const top = this.stack[this.stack.length - 1];
+
+      if (top === "'") {
+        this.parseSingleQuoted();
+      } else if (top === '"') {
+        this.parseDoubleQuoted();
+      } else {
+        this.parseCode(top);
+      }
+    }
+
+    const last = this.tokens[this.tokens.length - 1];
+    const top = this.stack[this.stack.length - 1];
+
+    // Open quote of the last word, if not in a substitution.
+    if (this.token && /^['"]$/.test(top ?? '') && !this.isNested()) {
+      this.token.quote = top;
+    }
+
+    let reason: ShellIncompleteReason | null = null;
+
+    if (top) {
+      reason = REASONS[top];
+    } else if (this.backslash) {
+      reason = 'backslash';
+    } else if (this.heredocOpen || this.heredocs.length) {
+      reason = 'heredoc';
+    } else if (last?.operator && PENDING_OPERATORS.includes(last.value)) {
+      reason = 'operator';
+    }
+
+    return { complete: reason === null, reason, tokens: this.tokens };
+  }
+
+  /**
+   * Append defined value to the current word, starting a word if needed.
+   *
+   * @param value  Unquoted value.
+   * @param length Number of input characters consumed.
+   */
+  private append(value: string, length: number) {
+    if (!this.token) {
+      this.token = {
+        end: this.offset,
+        operator: false,
+        quote: null,
+        start: this.offset,
+        value: '',
+      };
+
+      this.tokens.push(this.token);
+    }
+
+    this.offset += length;
+
+    this.token.end = this.offset;
+    this.token.value += value;
+  }
+
+  /**
+   * Check if the current offset is in a substitution, and characters should
+   * be kept as typed.
+   */
+  private isNested() {
+    return this.stack.some((e) => SUBSTITUTIONS.includes(e));
+  }
+
+  /**
+   * Check if defined offset is at the beginning of a word.
+   *
+   * @param offset Input offset.
+   */
+  private isWordStart(offset: number) {
+    return offset === 0 || /[\s;&|(]/.test(this.input.charAt(offset - 1));
+  }
+
+  /**
+   * Push control operator or group token.
+   *
+   * @param value Operator string.
+   */
+  private operator(value: string) {
+    this.tokens.push({
+      end: this.offset + value.length,
+      operator: true,
+      quote: null,
+      start: this.offset,
+      value,
+    });
+
+    this.offset += value.length;
+    this.token = null;
+  }
+
+  /**
+   * Parse unquoted input, at the top level or in a substitution or group.
+   *
+   * @param top Innermost open substitution or group, if any.
+   */
+  private parseCode(top: string | undefined) {
+    const char = this.input.charAt(this.offset);
+    const next = this.input.charAt(this.offset + 1);
+    const nested = this.isNested();
+
+    // Whitespace ends words, and newlines start pending heredoc bodies.
+    if (/\s/.test(char)) {
+      if (nested) {
+        this.append(char, 1);
+      } else {
+        this.offset += 1;
+        this.token = null;
+      }
+
+      if (char === '\n' && this.heredocs.length) {
+        this.parseHeredocs();
+      }
+
+      return;
+    }
+
+    // Comments.
+    if (char === '#' && this.isWordStart(this.offset)) {
+      const end = this.input.indexOf('\n', this.offset);
+
+      this.offset = end === -1 ? this.input.length : end;
+
+      return;
+    }
+
+    // Escaped characters, and line continuations.
+    if (char === '\\') {
+      if (next === '') {
+        this.backslash = true;
+        this.offset += 1;
+      } else if (next === '\n') {
+        this.offset += 2;
+      } else {
+        this.append(nested ? char + next : next, 2);
+      }
+
+      return;
+    }
+
+    if (char === "'" || char === '"') {
+      this.stack.push(char);
+      this.append(nested ? char : '', 1);
+
+      return;
+    }
+
+    if (char === '`') {
+      if (top === '`') {
+        this.stack.pop();
+      } else {
+        this.stack.push(char);
+      }
+
+      this.append(char, 1);
+
+      return;
+    }
+
+    // Command substitutions, and parameter expansions.
+    if (char === '$' && (next === '(' || next === '{')) {
+      this.stack.push(char + next);
+      this.append(char + next, 2);
+
+      return;
+    }
+
+    // Subshells are split into separate tokens, unless in a substitution.
+    if (char === '(') {
+      this.stack.push(char);
+
+      if (nested) {
+        this.append(char, 1);
+      } else {
+        this.operator(char);
+      }
+
+      return;
+    }
+
+    if (char === ')' && (top === '(' || top === '$(')) {
+      this.stack.pop();
+
+      if (nested) {
+        this.append(char, 1);
+      } else {
+        this.operator(char);
+      }
+
+      return;
+    }
+
+    // Groups are only opened and closed by separate words.
+    if (char === '{' && this.isWordStart(this.offset) && /^\s?$/.test(next)) {
+      this.stack.push(char);
+      this.append(char, 1);
+
+      return;
+    }
+
+    if (
+      char === '}' &&
+      (top === '${' || (top === '{' && this.isWordStart(this.offset)))
+    ) {
+      this.stack.pop();
+      this.append(char, 1);
+
+      return;
+    }
+
+    // Heredoc redirections.
+    const heredoc = this.input
+      .substring(this.offset)
+      .match(/^<<(-?)[ \t]*((?:[^\s;&|<>()'"\\]|'[^']*'|"[^"]*"|\\.)+)/);
+
+    if (heredoc) {
+      this.heredocs.push({
+        delimiter: heredoc[2].replace(/['"]|\\(.)/g, '$1'),
+        strip: heredoc[1] === '-',
+      });
+
+      this.append(heredoc[0], heredoc[0].length);
+
+      return;
+    }
+
+    // Control operators.
+    const operator = nested
+      ? undefined
+      : OPERATORS.find((e) => this.input.startsWith(e, this.offset));
+
+    if (operator) {
+      this.operator(operator);
+
+      return;
+    }
+
+    this.append(char, 1);
+  }
+
+  /**
+   * Parse input in double quotes.
+   */
+  private parseDoubleQuoted() {
+    const char = this.input.charAt(this.offset);
+    const next = this.input.charAt(this.offset + 1);
+    const nested = this.isNested();
+
+    if (char === '\\' && next !== '') {
+      if (nested) {
+        this.append(char + next, 2);
+      } else if (next === '\n') {
+        this.append('', 2);
+      } else {
+        this.append(/["\\$`]/.test(next) ? next : char + next, 2);
+      }
+    } else if (char === '"') {
+      this.stack.pop();
+      this.append(nested ? char : '', 1);
+    } else if (char === '`' || (char === '$' && /[({]/.test(next))) {
+      const open = char === '`' ? char : char + next;
+
+      this.stack.push(open);
+      this.append(open, open.length);
+    } else {
+      this.append(char, 1);
+    }
+  }
+
+  /**
+   * Parse heredoc bodies following a newline, in order, until each delimiter
+   * line is found.
+   */
+  private parseHeredocs() {
+    while (this.heredocs.length && this.offset < this.input.length) {
+      const heredoc = this.heredocs[0];
+      const end = this.input.indexOf('\n', this.offset);
+      const line = this.input.substring(
+        this.offset,
+        end === -1 ? this.input.length : end
+      );
+
+      this.offset = end === -1 ? this.input.length : end + 1;
+
+      if (
+        (heredoc.strip ? line.replace(/^\t+/, '') : line) === heredoc.delimiter
+      ) {
+        this.heredocs.shift();
+      }
+    }
+
+    this.heredocOpen = this.heredocs.length > 0;
+  }
+
+  /**
+   * Parse input in single quotes.
+   */
+  private parseSingleQuoted() {
+    const char = this.input.charAt(this.offset);
+
+    if (char === "'") {
+      this.stack.pop();
+      this.append(this.isNested() ? char : '', 1);
+    } else {
+      this.append(char, 1);
+    }
+  }
+}
+
+/**
+ * Parse defined shell input into words and control operators, and check if
+ * it's complete or why it's incomplete -- open quotes, substitutions or
+ * groups, a trailing backslash, a heredoc w/o delimiter line, or a trailing
+ * operator (`&&`, `||`, `|`, or `|&`).
+ *
+ * @param input Input string.
+ */
+export function parseShell(input: string): ShellParseResult {
+  return new ShellParser(input).parse();
+}
@@ -0,0 +1,405 @@
+import ansiRegex from 'ansi-regex';
+import type { IDisposable, Terminal } from 'xterm';
+
+import { parseKeys } from './Keymap';
+import type { CellPosition } from './Layout';
+import { LocalEchoAddon, Options } from './LocalEchoAddon';
+import { getGraphemeWidth, getGraphemes } from './Unicode';
+
+export interface FakeTerminalSize {
+  cols: number;
+  rows: number;
+}
+
+/**
+ * Lightweight stand-in for an xterm `Terminal` -- written data is applied to
+ * a screen buffer w/ cursor movement and erase sequences (styles are
+ * ignored), and input data and resizes are sent to listeners.
+ */
+export class FakeTerminal {
+  private cells: string[][] = [];
+  private col = 0;
+  private dataListeners: ((data: string) => void)[] = [];
+  private pending = false;
+  private resizeListeners: ((size: FakeTerminalSize) => void)[] = [];
+  private row = 0;
+  private wrapped: boolean[] = [];
+
+  public cols: number;
+  public rows: number;
+  public written: string[] = [];
+
+  constructor(cols = 80, rows = 24) {
+    this.cols = cols;
+    this.rows = rows;
+
+    for (let i = 0; i < rows; i++) {
+      this.cells.push(this.getEmptyRow());
+      this.wrapped.push(false);
+    }
+  }
+
+  /**
+   * Get cursor position on the screen.
+   */
+  get cursor(): CellPosition {
+    return { col: this.col, row: this.row };
+  }
+
+  /**
+   * Get screen rows as text, w/o trailing whitespace and empty rows.
+   */
+  get lines(): string[] {
+    const lines = this.cells.map((e) => e.join('').trimEnd());
+
+    while (lines.length && !lines[lines.length - 1]) {
+      lines.pop();
+    }
+
+    return lines;
+  }
+
+  /**
+   * Add listener for input data.
+   *
+   * @param listener Listener function.
+   */
+  onData(listener: (data: string) => void): IDisposable {
+    this.dataListeners.push(listener);
+
+    return {
+      dispose: () => {
+        this.dataListeners = this.dataListeners.filter((e) => e !== listener);
+      },
+    };
+  }
+
+  /**
+   * Add listener for terminal resizes.
+   *
+   * @param listener Listener function.
+   */
+  onResize(listener: (size: FakeTerminalSize) => void): IDisposable {
+    this.resizeListeners.push(listener);
+
+    return {
+      dispose: () => {
+        this.resizeListeners = this.resizeListeners.filter((e) => {
+          return e !== listener;
+        });
+      },
+    };
+  }
+
+  /**
+   * Resize screen, reflowing soft-wrapped rows like xterm, and notify
+   * listeners.
+   *
+   * @param cols Number of columns.
+   * @param rows Number of rows.
+   */
+  resize(cols: number, rows: number): void {
+    const lines: string[][] = [];
+
+    let cursor = { line: 0, offset: 0 };
+
+    // Join soft-wrapped rows into lines, w/ the cursor offset in its line.
+    this.cells.forEach((e, i) => {
+      if (!this.wrapped[i] || !lines.length) {
+        lines.push([]);
+      }
+
+      const line = lines[lines.length - 1];
+
+      if (i === this.row) {
+        cursor = { line: lines.length - 1, offset: line.length + this.col };
+      }
+
+      line.push(...e);
+    });
+
+    this.cells = [];
+    this.cols = cols;
+    this.rows = rows;
+    this.wrapped = [];
+
+    // Split lines into rows for the new width.
+    lines.forEach((line, i) => {
+      let end = line.length;
+
+      while (end > 0 && line[end - 1] === ' ') {
+        end--;
+      }
+
+      const count = Math.max(
+        Math.ceil(end / cols),
+        i === cursor.line ? Math.floor(cursor.offset / cols) + 1 : 1
+      );
+
+      if (i === cursor.line) {
+        this.col = cursor.offset % cols;
+        this.row = this.cells.length + Math.floor(cursor.offset / cols);
+      }
+
+      for (let j = 0; j < count; j++) {
+        const row = line.slice(j * cols, (j + 1) * cols);
+
+        this.cells.push(row.concat(this.getEmptyRow().slice(row.length)));
+        this.wrapped.push(j > 0);
+      }
+    });
+
+    // Remove empty rows below the cursor, then rows from the top.
+    while (this.cells.length > rows && this.row < this.cells.length - 1) {
+      if (this.cells[this.cells.length - 1].join('').trim()) {
+        break;
+      }
+
+      this.cells.pop();
+      this.wrapped.pop();
+    }
+
+    while (this.cells.length > rows) {
+      this.cells.shift();
+      this.wrapped.shift();
+
+      this.row -= 1;
+    }
+
+    while (this.cells.length < rows) {
+      this.cells.push(this.getEmptyRow());
+      this.wrapped.push(false);
+    }
+
+    this.pending = false;
+
+    this.resizeListeners.forEach((e) => e({ cols, rows }));
+  }
+
+  /**
+   * Send input data to listeners, as if typed.
+   *
+   * @param data Input data.
+   */
+  send(data: string): void {
+    this.dataListeners.forEach((e) => e(data));
+  }
+
+  /**
+   * Apply defined data to the screen buffer.
+   *
+   * @param data Output data.
+   */
+  write(data: string): void {
+    this.written.push(data);
+
+    let offset = 0;
+
+    for (const match of data.matchAll(ansiRegex())) {
+      this.print(data.substring(offset, match.index));
+      this.apply(match[0]);
+
+      offset = (match.index as number) + match[0].length;
+    }
+
+    this.print(data.substring(offset));
+  }
+
+  /**
+   * Apply defined escape sequence to the cursor position or screen buffer.
+   *
+   * @param sequence Escape sequence.
+   */
+  private apply(sequence: string) {
+    const match = sequence.match(/^\x1B\[(\d*)([A-DFJK])$/);
+
+    // Styles, modes, and other sequences are ignored, and keep pending wrap.
+    if (!match) {
+      return;
+    }
+
+    const count = Math.max(parseInt(match[1] || '1', 10), 1);
+
+    this.pending = false;
+
+    switch (match[2]) {
+      case 'A':
+        this.row = Math.max(this.row - count, 0);
+        break;
+
+      case 'B':
+        this.row = Math.min(this.row + count, this.rows - 1);
+        break;
+
+      case 'C':
+        this.col = Math.min(this.col + count, this.cols - 1);
+        break;
+
+      case 'D':
+        this.col = Math.max(this.col - count, 0);
+        break;
+
+      case 'F':
+        this.col = 0;
+        this.row = Math.max(this.row - count, 0);
+        break;
+
+      case 'J':
+        this.cells[this.row].fill(' ', this.col);
+
+        for (let i = this.row + 1; i < this.rows; i++) {
+          this.cells[i] = this.getEmptyRow();
+          this.wrapped[i] = false;
+        }
+        break;
+
+      case 'K':
+        this.cells[this.row].fill(' ', this.col);
+        break;
+    }
+  }
+
+  /**
+   * Get row of empty cells.
+   */
+  private getEmptyRow() {
+    return Array(this.cols).fill(' ');
+  }
+
+  /**
+   * Move cursor to the next row, scrolling the screen if on the last row.
+   */
+  private lineFeed() {
+    if (this.row < this.rows - 1) {
+      this.row += 1;
+    } else {
+      this.cells.shift();
+      this.cells.push(this.getEmptyRow());
+      this.wrapped.shift();
+      this.wrapped.push(false);
+    }
+  }
+
+  /**
+   * Print defined text at the cursor position, w/ respect to control
+   * characters, soft-wraps, and wide characters.
+   *
+   * @param text Text w/o escape sequences.
+   */
+  private print(text: string) {
+    for (const grapheme of getGraphemes(text)) {
+      if (grapheme === '\r' || grapheme === '\n' || grapheme === '\r\n') {
+        this.col = grapheme === '\n' ? this.col : 0;
+        this.pending = false;
+
+        if (grapheme !== '\r') {
+          this.lineFeed();
+        }
+
+        continue;
+      }
+
+      const width = getGraphemeWidth(grapheme);
+
+      if (width === 0) {
+        continue;
+      }
+
+      // If pending wrap, or wide character doesn't fit, wrap to next row.
+      if (this.pending || this.col + width > this.cols) {
+        this.col = 0;
+        this.pending = false;
+        this.lineFeed();
+
+        this.wrapped[this.row] = true;
+      }
+
+      this.cells[this.row][this.col] = grapheme;
+
+      if (width === 2) {
+        this.cells[this.row][this.col + 1] = '';
+      }
+
+      // If printed at the last column, wrap before the next character.
+      if (this.col + width >= this.cols) {
+        this.col = this.cols - 1;
+        this.pending = true;
+      } else {
+        this.col += width;
+      }
+    }
+  }
+}
+
+/**
+ * Drives an addon attached to a fake terminal -- keys and text are sent as
+ * typed, and the addon input, cursor offset, and screen can be inspected.
+ */
+export class TestHarness {
+  public addon: LocalEchoAddon;
+  public terminal: FakeTerminal;
+
+  constructor(options?: Partial<Options>, cols = 80, rows = 24) {
+    this.addon = new LocalEchoAddon(options);
+    this.terminal = new FakeTerminal(cols, rows);
+
+    this.addon.activate(this.terminal as unknown as Terminal);
+  }
+
+  /**
+   * Get addon input cursor offset.
+   */
+  get cursor(): number {
+    return this.addon.currentCursor;
+  }
+
+  /**
+   * Get addon input.
+   */
+  get input(): string {
+    return this.addon.currentInput;
+  }
+
+  /**
+   * Get screen rows as text.
+   */
+  get lines(): string[] {
+    return this.terminal.lines;
+  }
+
+  /**
+   * Send defined text as bracketed pasted text.
+   *
+   * @param text Pasted text.
+   */
+  paste(text: string): void {
+    this.terminal.send(`\x1B[200~${text}\x1B[201~`);
+  }
+
+  /**
+   * Send defined keys, one at a time.
+   *
+   * @param keys Key notation strings (e.g. `Tab`, `Ctrl+C`, or `Ctrl+X
+   *             Ctrl+U` for a key sequence).
+   */
+  press(...keys: string[]): void {
+    keys.forEach((e) => this.terminal.send(parseKeys(e)));
+  }
+
+  /**
+   * Wait for pending callbacks (e.g. tab completion or validation) to
+   * settle.
+   */
+  async settle(): Promise<void> {
+    await new Promise((resolve) => setTimeout(resolve));
+  }
+
+  /**
+   * Send defined text, one grapheme cluster at a time.
+   *
+   * @param text Typed text.
+   */
+  type(text: string): void {
+    getGraphemes(text).forEach((e) => this.terminal.send(e));
+  }
+}
@@ -0,0 +1,86 @@
+export interface UndoState {
+  cursor: number;
+  input: string;
+}
+
+export class UndoStack {
+  private group: string | null = null;
+  private grouped = false;
+  private redoItems: UndoState[] = [];
+
+  public items: UndoState[] = [];
+
+  /**
+   * Start a logical edit -- edits are undone together until a different
+   * group is started, or any group if null.
+   *
+   * @param group Edit group name, or null for a single edit.
+   */
+  begin(group: string | null): void {
+    if (group === null || group !== this.group) {
+      this.grouped = false;
+    }
+
+    this.group = group;
+  }
+
+  /**
+   * Save state before an edit, unless already saved for the current group,
+   * and discard undone states.
+   *
+   * @param state Input and cursor offset before the edit.
+   */
+  push(state: UndoState): void {
+    if (!this.grouped) {
+      this.items.push(state);
+
+      this.grouped = true;
+    }
+
+    this.redoItems = [];
+  }
+
+  /**
+   * Get state before the last edit, if any, and save defined state for redo.
+   *
+   * @param state Current input and cursor offset.
+   */
+  undo(state: UndoState): UndoState | undefined {
+    const item = this.items.pop();
+
+    if (item) {
+      this.redoItems.push(state);
+
+      this.grouped = false;
+    }
+
+    return item;
+  }
+
+  /**
+   * Get state before the last undo, if any, and save defined state for undo.
+   *
+   * @param state Current input and cursor offset.
+   */
+  redo(state: UndoState): UndoState | undefined {
+    const item = this.redoItems.pop();
+
+    if (item) {
+      this.items.push(state);
+
+      this.grouped = false;
+    }
+
+    return item;
+  }
+
+  /**
+   * Remove all saved states.
+   */
+  reset(): void {
+    this.group = null;
+    this.grouped = false;
+    this.items = [];
+    this.redoItems = [];
+  }
+}
@@ -0,0 +1,305 @@
+import ansiRegex from 'ansi-regex';
+
+/**
+ * Code point ranges rendered as two terminal cells (East Asian Wide and
+ * Fullwidth, plus emoji w/ default emoji presentation).
+ */
+const WIDE_RANGES: [number, number][] = [
+  [0x1100, 0x115f],
+  [0x231a, 0x231b],
+  [0x2329, 0x232a],
+  [0x23e9, 0x23ec],
+  [0x23f0, 0x23f0],
+  [0x23f3, 0x23f3],
+  [0x25fd, 0x25fe],
+  [0x2614, 0x2615],
+  [0x2648, 0x2653],
+  [0x267f, 0x267f],
+  [0x2693, 0x2693],
+  [0x26a1, 0x26a1],
+  [0x26aa, 0x26ab],
+  [0x26bd, 0x26be],
+  [0x26c4, 0x26c5],
+  [0x26ce, 0x26ce],
+  [0x26d4, 0x26d4],
+  [0x26ea, 0x26ea],
+  [0x26f2, 0x26f3],
+  [0x26f5, 0x26f5],
+  [0x26fa, 0x26fa],
+  [0x26fd, 0x26fd],
+  [0x2705, 0x2705],
+  [0x270a, 0x270b],
+  [0x2728, 0x2728],
+  [0x274c, 0x274c],
+  [0x274e, 0x274e],
+  [0x2753, 0x2755],
+  [0x2757, 0x2757],
+  [0x2795, 0x2797],
+  [0x27b0, 0x27b0],
+  [0x27bf, 0x27bf],
+  [0x2b1b, 0x2b1c],
+  [0x2b50, 0x2b50],
+  [0x2b55, 0x2b55],
+  [0x2e80, 0x303e],
+  [0x3041, 0x33ff],
+  [0x3400, 0x4dbf],
+  [0x4e00, 0x9fff],
+  [0xa000, 0xa4cf],
+  [0xa960, 0xa97f],
+  [0xac00, 0xd7a3],
+  [0xf900, 0xfaff],
+  [0xfe10, 0xfe19],
+  [0xfe30, 0xfe6f],
+  [0xff00, 0xff60],
+  [0xffe0, 0xffe6],
+  [0x16fe0, 0x16fe4],
+  [0x17000, 0x18aff],
+  [0x1b000, 0x1b2ff],
+  [0x1f004, 0x1f004],
+  [0x1f0cf, 0x1f0cf],
+  [0x1f18e, 0x1f18e],
+  [0x1f191, 0x1f19a],
+  [0x1f200, 0x1f202],
+  [0x1f210, 0x1f23b],
+  [0x1f240, 0x1f248],
+  [0x1f250, 0x1f251],
+  [0x1f260, 0x1f265],
+  [0x1f300, 0x1f320],
+  [0x1f32d, 0x1f335],
+  [0x1f337, 0x1f37c],
+  [0x1f37e, 0x1f393],
+  [0x1f3a0, 0x1f3ca],
+  [0x1f3cf, 0x1f3d3],
+  [0x1f3e0, 0x1f3f0],
+  [0x1f3f4, 0x1f3f4],
+  [0x1f3f8, 0x1f43e],
+  [0x1f440, 0x1f440],
+  [0x1f442, 0x1f4fc],
+  [0x1f4ff, 0x1f53d],
+  [0x1f54b, 0x1f54e],
+  [0x1f550, 0x1f567],
+  [0x1f57a, 0x1f57a],
+  [0x1f595, 0x1f596],
+  [0x1f5a4, 0x1f5a4],
+  [0x1f5fb, 0x1f64f],
+  [0x1f680, 0x1f6c5],
+  [0x1f6cc, 0x1f6cc],
+  [0x1f6d0, 0x1f6d2],
+  [0x1f6d5, 0x1f6d7],
+  [0x1f6eb, 0x1f6ec],
+  [0x1f6f4, 0x1f6fc],
+  [0x1f7e0, 0x1f7eb],
+  [0x1f90c, 0x1f93a],
+  [0x1f93c, 0x1f945],
+  [0x1f947, 0x1f9ff],
+  [0x1fa70, 0x1faff],
+  [0x20000, 0x2fffd],
+  [0x30000, 0x3fffd],
+];
+
+// Fallback grapheme cluster matcher for environments w/o `Intl.Segmenter`.
+const GRAPHEME_REGEX =
+  /\p{Regional_Indicator}{2}|\r\n|[^](?:\u200D[^]|[\p{M}\u200C\u{1F3FB}-\u{1F3FF}\u{E0020}-\u{E007F}])*/gu;
+
+const ASCII_REGEX = /^[\x20-\x7E\n]*$/;
+
+const ZERO_WIDTH_REGEX = /^[\p{Mn}\p{Me}\p{Cf}\u1160-\u11FF]$/u;
+
+let segmenter: Intl.Segmenter | null | undefined;
+
+/**
+ * Get cached grapheme segmenter, if supported.
+ */
+function getSegmenter() {
+  if (segmenter === undefined) {
+    segmenter =
+      typeof Intl !== 'undefined' && 'Segmenter' in Intl
+        ? new Intl.Segmenter(undefined, { granularity: 'grapheme' })
+        : null;
+  }
+
+  return segmenter;
+}
+
+/**
+ * Get number of terminal cells used by defined code point.
+ *
+ * @param code Unicode code point.
+ */
+export function getCharWidth(code: number) {
+  // Control characters.
+  if (code < 32 || (code >= 0x7f && code < 0xa0)) {
+    return 0;
+  }
+
+  // Printable ASCII characters.
+  if (code < 0x7f) {
+    return 1;
+  }
+
+  // Combining marks, format characters, and Hangul medial vowels.
+  if (ZERO_WIDTH_REGEX.test(String.fromCodePoint(code))) {
+    return 0;
+  }
+
+  // Binary search wide ranges.
+  let min = 0;
+  let max = WIDE_RANGES.length - 1;
+
+  if (code < WIDE_RANGES[0][0] || code > WIDE_RANGES[max][1]) {
+    return 1;
+  }
+
+  while (min <= max) {
+    const mid = (min + max) >> 1;
+
+    if (code > WIDE_RANGES[mid][1]) {
+      min = mid + 1;
+    } else if (code < WIDE_RANGES[mid][0]) {
+      max = mid - 1;
+    } else {
+      return 2;
+    }
+  }
+
+  return 1;
+}
+
+/**
+ * Get number of terminal cells used by defined grapheme cluster.
+ *
+ * @param grapheme Grapheme cluster string.
+ */
+export function getGraphemeWidth(grapheme: string) {
+  const code = grapheme.codePointAt(0);
+
+  if (code === undefined) {
+    return 0;
+  }
+
+  // Flags made of regional indicator pairs.
+  if (code >= 0x1f1e6 && code <= 0x1f1ff) {
+    return grapheme.length > 2 ? 2 : 1;
+  }
+
+  const width = getCharWidth(code);
+
+  // Narrow base character w/ emoji presentation selector.
+  if (width === 1 && grapheme.includes('\uFE0F')) {
+    return 2;
+  }
+
+  return width;
+}
+
+/**
+ * Split defined input into grapheme clusters.
+ *
+ * @param input Input string.
+ */
+export function getGraphemes(input: string): string[] {
+  const segmenter = getSegmenter();
+
+  // Printable ASCII characters and newlines are each a grapheme cluster.
+  if (ASCII_REGEX.test(input)) {
+    return input.split('');
+  }
+
+  if (segmenter) {
+    return Array.from(segmenter.segment(input), (e) => e.segment);
+  }
+
+  return input.match(GRAPHEME_REGEX) || [];
+}
+
+/**
+ * Get offset of grapheme cluster boundary nearest to the defined offset.
+ *
+ * @param input  Input string.
+ * @param offset Input cursor offset.
+ * @param rtl    Right to left.
+ */
+export function getGraphemeBoundary(
+  input: string,
+  offset: number,
+  rtl: boolean
+) {
+  let boundary = 0;
+
+  for (const grapheme of getGraphemes(input)) {
+    const next = boundary + grapheme.length;
+
+    if (rtl ? next >= offset : next > offset) {
+      return rtl ? boundary : next;
+    }
+
+    boundary = next;
+  }
+
+  return input.length;
+}
+
+/**
+ * Get number of terminal cells used by defined string, excluding ANSI escape
+ * sequences.
+ *
+ * @param input Input string.
+ */
+export function getStringWidth(input: string) {
+  return getGraphemes(stripAnsi(input)).reduce(
+    (width, e) => width + getGraphemeWidth(e),
+    0
+  );
+}
+
+/**
+ * Truncate defined string to fit the defined number of terminal cells, w/ an
+ * ellipsis if truncated.
+ *
+ * @param input Input string, w/o ANSI escape sequences.
+ * @param width Maximum number of terminal cells.
+ */
+export function getTruncated(input: string, width: number) {
+  if (getStringWidth(input) <= width) {
+    return input;
+  }
+
+  let output = '';
+  let outputWidth = 1;
+
+  for (const grapheme of getGraphemes(input)) {
+    outputWidth += getGraphemeWidth(grapheme);
+
+    if (outputWidth > width) {
+      break;
+    }
+
+    output += grapheme;
+  }
+
+  return width > 0 ? output + '\u2026' : '';
+}
+
+/**
+ * Get style escape sequences in effect at the end of defined output -- those
+ * after the last reset.
+ *
+ * @param output Output string.
+ */
+export function getActiveStyle(output: string) {
+  const styles = output.match(/\x1B\[[0-9;]*m/g) || [];
+
+  // Styles before the last reset have no effect.
+  const reset = styles.map((e) => /^\x1B\[0*m$/.test(e)).lastIndexOf(true);
+
+  return styles.slice(reset + 1).join('');
+}
+
+/**
+ * Remove ANSI escape sequences from defined string.
+ *
+ * @param input Input string.
+ */
+export function stripAnsi(input: string) {
+  return input.replace(ansiRegex(), '');
+}
@@ -1,34 +1,41 @@
 import { parse, quote } from 'shell-quote';
-import ansiRegex from 'ansi-regex';
+
+import { Layout } from './Layout';
+import { MatchStrategy, getMatchScore } from './Matching';
+import { ShellToken, parseShell } from './ShellParser';
+import { stripAnsi } from './Unicode';
+
+export interface TabCompleteContext {
+  args: string[];
+  cursor: number;
+  end: number;
+  fragment: string;
+  index: number;
+  input: string;
+  quote: string | null;
+  signal: AbortSignal;
+  start: number;
+}
+
+export interface TabCompleteItem {
+  description?: string;
+  insertText?: string;
+  kind?: 'command' | 'dir' | 'file' | 'flag';
+  label: string;
+  noSpace?: boolean;
+  suffix?: string;
+}
 
 /**
- * Get column and row position for defined input and cursor offset.
+ * Get column and row position for defined input and cursor offset -- ANSI
+ * escape sequences are excluded, and wide characters use two columns.
  *
  * @param input  Input string
- * @param offset Input cursor offset.
+ * @param offset Input cursor offset, excluding ANSI escape sequences.
  * @param cols   Maximum number of columns.
  */
 export function getColRow(input: string, offset: number, cols: number) {
-  let col = 0;
-  let row = 0;
-
-  for (let i = 0; i < offset; i++) {
-    const char = input.charAt(i);
-
-    if (char === '\n') {
-      col = 0;
-      row = row + 1;
-    } else {
-      col++;
-
-      if (col === cols) {
-        col = 0;
-        row += row + 1;
-      }
-    }
-  }
-
-  return { col, row };
+  return new Layout(stripAnsi(input).substring(0, offset), cols).end;
 }
 
 /**
@@ -38,78 +45,340 @@ export function getColRow(input: string, offset: number, cols: number) {
  * @param cols  Maximum number of columns.
  */
 export function getLineCount(input: string, cols: number) {
-  return getColRow(input, input.replace(ansiRegex(), '').length, cols).row + 1;
+  return new Layout(stripAnsi(input), cols).rows;
 }
 
 /**
- * Loop through suggestions to find part(s) shared w/ defined input.
+ * Get defined input w/ escaped newlines removed, joining continued lines, and
+ * surrounding whitespace trimmed.
+ *
+ * @param input Input string.
+ */
+export function getNormalizedInput(input: string) {
+  // Escaped backslashes before a newline don't escape it.
+  return input
+    .replace(/\\(\\|\n)/g, (match, char) => (char === '\n' ? '' : match))
+    .trim();
+}
+
+/**
+ * Get defined pasted text as literal input -- escape sequences and control
+ * characters are removed, line endings normalized, and tabs expanded.
+ *
+ * @param input Pasted text.
+ */
+export function getPastedText(input: string) {
+  return stripAnsi(input)
+    .replace(/\r\n?/g, '\n')
+    .replace(/\t/g, '    ')
+    .replace(/[\x00-\x09\x0B-\x1F\x7F]/g, '');
+}
+
+/**
+ * Get prefix shared by all suggestions, or null if any suggestion doesn't
+ * start w/ defined input.
  *
  * @param input       Input string.
  * @param suggestions Array of tab complete suggestions.
+ * @param ignoreCase  Compare characters case-insensitively.
  */
-export function getTabShared(input: string, suggestions: string[]): string {
-  if (input.length >= suggestions[0].length) {
-    return input;
+export function getTabShared(
+  input: string,
+  suggestions: string[],
+  ignoreCase = false
+): string | null {
+  const normalize = (e: string) => (ignoreCase ? e.toLowerCase() : e);
+
+  if (!suggestions.length) {
+    return null;
+  }
+
+  if (!suggestions.every((e) => normalize(e).startsWith(normalize(input)))) {
+    return null;
   }
 
-  const inputPrev = input;
+  // Shorten first suggestion until it's shared by all suggestions.
+  let shared = suggestions[0];
 
-  input += suggestions[0].slice(input.length, input.length + 1);
+  for (const suggestion of suggestions) {
+    let i = 0;
 
-  for (let i = 0; i < suggestions.length; i++) {
-    if (!suggestions[i].startsWith(inputPrev)) {
-      return '';
+    while (
+      i < shared.length &&
+      normalize(shared.charAt(i)) === normalize(suggestion.charAt(i))
+    ) {
+      i++;
     }
 
-    if (!suggestions[i].startsWith(input)) {
-      return inputPrev;
-    }
+    shared = shared.substring(0, i);
   }
 
-  return getTabShared(input, suggestions);
+  return shared;
 }
 
 /**
- * Get tab complete suggestions for the defined input.
+ * Get tab complete suggestions for the defined input -- handlers are called
+ * concurrently, and any that fail or exceed the timeout are skipped (and
+ * their signal aborted on timeout).
  *
  * @param callbacks Tab complete callback functions.
  * @param input     Input string.
+ * @param cursor    Input cursor offset.
+ * @param signal    Signal aborted when suggestions are no longer needed.
+ * @param timeout   Maximum time to wait for each handler (ms), if any.
+ * @param strategy  Strategy used to match and rank suggestions.
+ * @param onError   Callback for handler errors and timeouts, unless aborted.
  */
 export async function getTabSuggestions(
   callbacks: any[],
-  input: string
-): Promise<string[]> {
-  const args = parse(input) as string[];
-
-  let index = args.length - 1;
-  let subject = args[index] || '';
-
-  if (input.trim() === '') {
-    index = 0;
-    subject = '';
-  } else if (hasTrailingWhitespace(input)) {
-    index += 1;
-    subject = '';
-  }
+  input: string,
+  cursor = input.length,
+  signal = new AbortController().signal,
+  timeout = 0,
+  strategy: MatchStrategy = 'prefix',
+  onError: (error: unknown) => void = () => {}
+): Promise<TabCompleteItem[]> {
+  const context = getTabContext(input, cursor, signal);
+
+  const results = await Promise.all(
+    callbacks.map(async ({ callback, args }) => {
+      const controller = new AbortController();
+      const abort = () => controller.abort();
+
+      // Each handler has its own signal, aborted w/ the defined signal or on
+      // timeout.
+      if (signal.aborted) {
+        abort();
+      } else {
+        signal.addEventListener('abort', abort);
+      }
 
-  const suggestions = await callbacks.reduce(
-    async (acc, { callback, args }) => {
       try {
-        const candidates = await callback(index, subject, ...args);
-
-        return (await acc).concat(candidates);
+        const candidates = await getTimeout(
+          callback(
+            context.index,
+            { ...context, signal: controller.signal },
+            ...args
+          ),
+          timeout,
+          abort
+        );
+
+        return candidates.map((e: string | TabCompleteItem) => {
+          return typeof e === 'string' ? { label: e } : e;
+        });
       } catch (error) {
-        console.error('Tab complete error:', error);
-
-        return acc;
+        // If cancelled, handlers may reject w/ an abort error.
+        if (!signal.aborted) {
+          onError(error);
+        }
+
+        return [];
+      } finally {
+        signal.removeEventListener('abort', abort);
       }
-    },
-    []
+    })
   );
 
-  return suggestions.filter((suggestion: string) =>
-    suggestion.startsWith(subject)
-  );
+  const scores = new Map<TabCompleteItem, number | null>();
+
+  results.flat().forEach((suggestion: TabCompleteItem) => {
+    scores.set(
+      suggestion,
+      getMatchScore(getTabInsert(suggestion), context.fragment, strategy)
+    );
+  });
+
+  // Sort by score, then by label.
+  return Array.from(scores.keys())
+    .filter((suggestion) => scores.get(suggestion) !== null)
+    .sort((a, b) => {
+      const score = (scores.get(b) as number) - (scores.get(a) as number);
+
+      return score || (a.label < b.label ? -1 : a.label > b.label ? 1 : 0);
+    });
+}
+
+/**
+ * Get text inserted for defined tab complete suggestion.
+ *
+ * @param suggestion Tab complete suggestion.
+ */
+export function getTabInsert(suggestion: TabCompleteItem) {
+  return suggestion.insertText ?? suggestion.label;
+}
+
+/**
+ * Get text appended after defined tab complete suggestion when it's the only
+ * suggestion -- a space unless the suggestion is a directory or defines its
+ * own suffix.
+ *
+ * @param suggestion Tab complete suggestion.
+ */
+export function getTabSuffix(suggestion: TabCompleteItem) {
+  if (suggestion.noSpace) {
+    return '';
+  }
+
+  return suggestion.suffix ?? (suggestion.kind === 'dir' ? '/' : ' ');
+}
+
+/**
+ * Get tab complete context for defined input and cursor offset -- arguments
+ * are those of the command under the cursor, split at `|`, `&&`, `||`, `;`,
+ * and `&` operators.
+ *
+ * @param input  Input string.
+ * @param cursor Input cursor offset.
+ * @param signal Signal aborted when suggestions are no longer needed.
+ */
+export function getTabContext(
+  input: string,
+  cursor: number,
+  signal: AbortSignal
+): TabCompleteContext {
+  const tokens = getTokens(input);
+
+  // Get arguments of the command under the cursor.
+  const operators = tokens.filter((e) => e.operator);
+  const prev = operators.filter((e) => e.end <= cursor).pop();
+  const next = operators.find((e) => e.start >= cursor);
+  const words = tokens.filter((e) => {
+    return (
+      !e.operator &&
+      e.start >= (prev?.end ?? 0) &&
+      e.end <= (next?.start ?? input.length)
+    );
+  });
+
+  const args = words.map((e) => e.value);
+
+  let index = words.findIndex((e) => e.start < cursor && e.end >= cursor);
+  let start = cursor;
+  let end = cursor;
+  let fragment = '';
+  let quote: string | null = null;
+
+  // If cursor is in an argument, complete it...
+  if (index !== -1) {
+    const token = getTokens(input.substring(words[index].start, cursor))[0];
+
+    start = words[index].start;
+    end = words[index].end;
+    fragment = token.value;
+    quote = token.quote;
+
+    // ...else, complete a new argument.
+  } else {
+    index = words.filter((e) => e.end < cursor).length;
+
+    args.splice(index, 0, '');
+  }
+
+  return {
+    args,
+    cursor,
+    end,
+    fragment,
+    index,
+    input,
+    quote,
+    signal,
+    start,
+  };
+}
+
+/**
+ * Split defined input into arguments and control operators, w/ the offsets
+ * and unquoted value of each.
+ *
+ * @param input Input string.
+ */
+export function getTokens(input: string): ShellToken[] {
+  return parseShell(input).tokens;
+}
+
+/**
+ * Get input and cursor offset after completing the argument fragment before
+ * the cursor w/ defined text -- the fragment is kept as typed if the text
+ * starts w/ it, else replaced. Suffix whitespace is skipped if whitespace
+ * follows the cursor already.
+ *
+ * @param context Tab complete context.
+ * @param text    Completed argument text.
+ * @param suffix  Text appended after the completed argument.
+ */
+export function getTabCompleted(
+  context: TabCompleteContext,
+  text: string,
+  suffix = ''
+): [string, number] {
+  const { cursor, fragment, input, quote, start } = context;
+
+  let output = text.startsWith(fragment)
+    ? input.substring(0, cursor) +
+      getEscaped(text.substring(fragment.length), quote)
+    : input.substring(0, start) + (quote ?? '') + getEscaped(text, quote);
+
+  // If suffix ends w/ whitespace, close open quote.
+  if (quote && /\s$/.test(suffix)) {
+    output += quote;
+  }
+
+  // If whitespace follows the cursor already, skip suffix whitespace.
+  output += /^\s/.test(input.charAt(cursor))
+    ? suffix.replace(/\s+$/, '')
+    : suffix;
+
+  return [output + input.substring(cursor), output.length];
+}
+
+/**
+ * Escape special characters in defined argument value, w/ respect to the
+ * open quote character (if any).
+ *
+ * @param value Argument value.
+ * @param quote Open quote character.
+ */
+export function getEscaped(value: string, quote: string | null = null) {
+  if (quote === "'") {
+    return value.replace(/'/g, "'\\''");
+  }
+
+  if (quote === '"') {
+    return value.replace(/["\\$`]/g, '\\$&');
+  }
+
+  return value.replace(/[\s'"\\|&;()<>$`]/g, '\\$&');
+}
+
+/**
+ * Return promise that resolves w/ the defined value, or rejects if it doesn't
+ * resolve before the timeout.
+ *
+ * @param value     Value or promise.
+ * @param timeout   Timeout (ms), or zero for none.
+ * @param onTimeout Callback called when the timeout expires.
+ */
+function getTimeout<T>(
+  value: T | Promise<T>,
+  timeout: number,
+  onTimeout: () => void = () => {}
+): Promise<T> {
+  if (timeout <= 0) {
+    return Promise.resolve(value);
+  }
+
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      onTimeout();
+      reject(new Error(`Timed out after ${timeout}ms`));
+    }, timeout);
+
+    Promise.resolve(value)
+      .then(resolve, reject)
+      .finally(() => clearTimeout(timer));
+  });
 }
 
 /**
@@ -136,7 +405,7 @@ export function getTrailingArgument(input: string): string {
  */
 export function getWord(input: string, offset: number, rtl: boolean) {
   const words = [];
-  const wordsRegex = /\w+/g;
+  const wordsRegex = /[\p{L}\p{M}\p{N}_]+/gu;
 
   let found;
   let matches;
@@ -155,36 +424,27 @@ export function getWord(input: string, offset: number, rtl: boolean) {
 }
 
 /**
- * Check if given input string has incomplete character(s).
+ * Get end of the word at or after defined cursor offset.
  *
- * @param input Input string.
+ * @param input  Input string.
+ * @param offset Input cursor offset.
  */
-export function hasIncompleteChars(input: string) {
-  if (input.trim()) {
-    // Has open single quote.
-    if ((input.match(/'/g) || []).length % 2 !== 0) {
-      return true;
-    }
-
-    // Has open double quote.
-    if ((input.match(/"/g) || []).length % 2 !== 0) {
-      return true;
-    }
-
-    // Has boolean or pipe operator.
-    let bools = input.split(/(\|\||\||&&)/g);
-
-    if (bools.pop()?.trim() === '') {
-      return true;
-    }
+export function getWordEnd(input: string, offset: number) {
+  const match = input
+    .substring(offset)
+    .match(/^[^\p{L}\p{M}\p{N}_]*[\p{L}\p{M}\p{N}_]*/u);
 
-    // Has trailing slash.
-    if (input.endsWith('\\') && !input.endsWith('\\\\')) {
-      return true;
-    }
-  }
+  return offset + (match ? match[0].length : 0);
+}
 
-  return false;
+/**
+ * Check if given input string has incomplete character(s) -- open quotes,
+ * substitutions or groups, a trailing backslash or operator, or a heredoc.
+ *
+ * @param input Input string.
+ */
+export function hasIncompleteChars(input: string) {
+  return input.trim() !== '' && !parseShell(input).complete;
 }
 
 /**
@@ -195,3 +455,32 @@ export function hasIncompleteChars(input: string) {
 export function hasTrailingWhitespace(input: string) {
   return input.match(/[^\\][ \t]$/m) !== null;
 }
+
+/**
+ * Call defined function, and pass its result to defined callback -- right
+ * away if it's not a promise, so synchronous results are handled in order
+ * (e.g. for pasted lines).
+ *
+ * @param fn      Function returning a value or promise.
+ * @param resolve Callback for the value.
+ * @param reject  Callback for thrown or rejected errors.
+ */
+export function settle<T>(
+  fn: () => T | Promise<T>,
+  resolve: (value: T) => void,
+  reject: (error: unknown) => void
+) {
+  let value: T | Promise<T>;
+
+  try {
+    value = fn();
+  } catch (error) {
+    return reject(error);
+  }
+
+  if (value instanceof Promise) {
+    value.then(resolve, reject);
+  } else {
+    resolve(value);
+  }
+}
@@ -0,0 +1,16 @@
+import { HistoryAutosuggestProvider } from '../src/Autosuggest';
+import { History } from '../src/History';
+
+test('HistoryAutosuggestProvider', () => {
+  const history = new History(10, { control: [] });
+  const provider = new HistoryAutosuggestProvider(history);
+
+  history.push('git commit');
+  history.push('git checkout main');
+  history.push('ls');
+
+  expect(provider.suggest('git c')).toEqual('git checkout main');
+  expect(provider.suggest('git co')).toEqual('git commit');
+  expect(provider.suggest('ls')).toEqual(null);
+  expect(provider.suggest('cd')).toEqual(null);
+});
@@ -0,0 +1,81 @@
+import { CommandSpec, getCommandSpecSuggestions } from '../src/CommandSpec';
+import { getTabContext } from '../src/Utils';
+
+const spec: CommandSpec = {
+  name: 'git',
+  description: 'Version control',
+  subcommands: [
+    {
+      name: ['checkout', 'co'],
+      args: { generator: () => ['main', 'develop'] },
+      options: [{ name: ['-b', '--branch'], args: { name: 'branch' } }],
+    },
+    {
+      name: 'commit',
+      options: [
+        { name: ['-a', '--all'], description: 'Commit all changes' },
+        { name: '-v', repeatable: true },
+        { name: ['-m', '--message'], args: { suggestions: ['fix', 'wip'] } },
+      ],
+    },
+    {
+      name: 'add',
+      args: { suggestions: ['a.txt', 'b.txt'], variadic: true },
+    },
+  ],
+};
+
+const getLabels = async (input: string) => {
+  const signal = new AbortController().signal;
+  const context = getTabContext(input, input.length, signal);
+  const suggestions = await getCommandSpecSuggestions(spec, context);
+
+  return suggestions.map((e) => e.insertText ?? e.label);
+};
+
+test('getCommandSpecSuggestions(); Commands', async () => {
+  expect(await getLabels('')).toEqual(['git']);
+  expect(await getLabels('ls ')).toEqual([]);
+  expect(await getLabels('git ')).toEqual(['checkout', 'co', 'commit', 'add']);
+});
+
+test('getCommandSpecSuggestions(); Arguments', async () => {
+  expect(await getLabels('git co ')).toEqual(['main', 'develop']);
+  expect(await getLabels('git checkout main ')).toEqual(['-b', '--branch=']);
+  expect(await getLabels('git add a.txt ')).toEqual(['a.txt', 'b.txt']);
+  expect(await getLabels('git add -- ')).toEqual(['a.txt', 'b.txt']);
+});
+
+test('getCommandSpecSuggestions(); Options', async () => {
+  expect(await getLabels('git commit -')).toEqual([
+    '-a',
+    '--all',
+    '-v',
+    '-m',
+    '--message=',
+  ]);
+  expect(await getLabels('git commit --all -v -')).toEqual([
+    '-v',
+    '-m',
+    '--message=',
+  ]);
+  expect(await getLabels('git commit -av -')).toEqual([
+    '-v',
+    '-m',
+    '--message=',
+  ]);
+});
+
+test('getCommandSpecSuggestions(); Option values', async () => {
+  expect(await getLabels('git commit -m ')).toEqual(['fix', 'wip']);
+  expect(await getLabels('git commit --message=')).toEqual([
+    '--message=fix',
+    '--message=wip',
+  ]);
+  expect(await getLabels('git commit -m fix ')).toEqual(['-a', '--all', '-v']);
+  expect(await getLabels('git commit --message=fix -')).toEqual([
+    '-a',
+    '--all',
+    '-v',
+  ]);
+});
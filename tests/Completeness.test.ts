@@ -0,0 +1,48 @@
+import {
+  createTerminatorComplete,
+  isBracketsComplete,
+  isIndentComplete,
+  isShellComplete,
+} from '../src/Completeness';
+
+test('isShellComplete()', () => {
+  expect(isShellComplete('ls -la')).toEqual(true);
+  expect(isShellComplete('ls &&')).toEqual(false);
+  expect(isShellComplete(`echo "a`)).toEqual(false);
+});
+
+test('isBracketsComplete()', () => {
+  expect(isBracketsComplete('')).toEqual(true);
+  expect(isBracketsComplete('f(1, [2, 3])')).toEqual(true);
+  expect(isBracketsComplete('function f() {')).toEqual(false);
+  expect(isBracketsComplete('{"a": [1, 2')).toEqual(false);
+  expect(isBracketsComplete('{"a": "}"')).toEqual(false);
+  expect(isBracketsComplete('"a \\" b')).toEqual(false);
+  expect(isBracketsComplete('`a\n${b}`')).toEqual(true);
+  expect(isBracketsComplete("f('a') // don't")).toEqual(true);
+  expect(isBracketsComplete('f(]')).toEqual(true);
+});
+
+test('isIndentComplete()', () => {
+  expect(isIndentComplete('print(1)')).toEqual(true);
+  expect(isIndentComplete('print(1,')).toEqual(false);
+  expect(isIndentComplete('def f():')).toEqual(false);
+  expect(isIndentComplete('def f():  # comment')).toEqual(false);
+  expect(isIndentComplete('def f():\n  return 1')).toEqual(false);
+  expect(isIndentComplete('def f():\n  return 1\n')).toEqual(true);
+  expect(isIndentComplete('x = {"a":\n1}')).toEqual(true);
+});
+
+test('createTerminatorComplete()', () => {
+  const isComplete = createTerminatorComplete();
+
+  expect(isComplete('SELECT 1;')).toEqual(true);
+  expect(isComplete('SELECT 1;  ')).toEqual(true);
+  expect(isComplete('SELECT 1; -- comment')).toEqual(true);
+  expect(isComplete('SELECT 1')).toEqual(false);
+  expect(isComplete('SELECT 1 -- comment;')).toEqual(false);
+  expect(isComplete("SELECT ';")).toEqual(false);
+  expect(isComplete("SELECT ';'")).toEqual(false);
+  expect(isComplete("SELECT\n  ';'\n;")).toEqual(true);
+  expect(createTerminatorComplete('GO', null)('SELECT 1\nGO')).toEqual(true);
+});
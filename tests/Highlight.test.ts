@@ -0,0 +1,35 @@
+import { createShellHighlighter } from '../src/Highlight';
+import { stripAnsi } from '../src/Unicode';
+
+test('createShellHighlighter()', () => {
+  const highlight = createShellHighlighter();
+
+  expect(highlight('ls -la')).toEqual(
+    '\u001b[32mls\u001b[0m \u001b[36m-la\u001b[0m'
+  );
+  expect(highlight(`echo "a b" && cat`)).toEqual(
+    '\u001b[32mecho\u001b[0m \u001b[33m"a b"\u001b[0m ' +
+      '\u001b[1m&&\u001b[0m \u001b[32mcat\u001b[0m'
+  );
+  expect(highlight('')).toEqual('');
+});
+
+test('createShellHighlighter(); Commands', () => {
+  const highlight = createShellHighlighter({ commands: ['ls'] });
+
+  expect(highlight('ls | foo')).toEqual(
+    '\u001b[32mls\u001b[0m \u001b[1m|\u001b[0m \u001b[31mfoo\u001b[0m'
+  );
+  expect(stripAnsi(highlight(`  ls 'a\nb' | foo\\\n -x `))).toEqual(
+    `  ls 'a\nb' | foo\\\n -x `
+  );
+});
+
+test('createShellHighlighter(); Styles', () => {
+  const highlight = createShellHighlighter({
+    commands: (name) => name === 'ls',
+    styles: { unknown: '\u001b[4m' },
+  });
+
+  expect(highlight('foo')).toEqual('\u001b[4mfoo\u001b[0m');
+});
@@ -38,4 +38,112 @@ describe("HistoryController", () => {
     expect(historyController.getNext()).toEqual("3");
     expect(historyController.getNext()).toBeUndefined();
   });
+
+  test("history.search()", () => {
+    const historyController = new History(10);
+
+    historyController.push("git status");
+    historyController.push("ls -la");
+    historyController.push("git commit");
+
+    expect(historyController.search("git", 2)).toEqual(2);
+    expect(historyController.search("git", 1)).toEqual(0);
+    expect(historyController.search("git", 0, false)).toEqual(0);
+    expect(historyController.search("git", 1, false)).toEqual(2);
+    expect(historyController.search("status", 2)).toEqual(0);
+    expect(historyController.search("push", 2)).toEqual(-1);
+    expect(historyController.search("git", -1)).toEqual(-1);
+  });
+
+  test("history control", () => {
+    const historyController = new History(10, {
+      control: ["ignoreboth"],
+    });
+
+    historyController.push("ls");
+    historyController.push("ls");
+    historyController.push(" secret");
+    historyController.push("pwd");
+    historyController.push("ls");
+
+    expect(historyController.items).toEqual(["ls", "pwd", "ls"]);
+  });
+
+  test("history control; erasedups", () => {
+    const historyController = new History(10, {
+      control: ["erasedups"],
+    });
+
+    historyController.push("ls");
+    historyController.push("pwd");
+    historyController.push("ls");
+    historyController.push(" ls");
+
+    expect(historyController.items).toEqual(["pwd", "ls", " ls"]);
+  });
+
+  test("history control; none", () => {
+    const historyController = new History(10, { control: [] });
+
+    historyController.push("ls");
+    historyController.push("ls");
+
+    expect(historyController.items).toEqual(["ls", "ls"]);
+  });
+
+  test("history ignore patterns", () => {
+    const historyController = new History(10, {
+      ignore: ["ls", "cd *", "[bf]g", "exit?", /password/i],
+    });
+
+    historyController.push("ls");
+    historyController.push("ls -la");
+    historyController.push("cd /tmp");
+    historyController.push("bg");
+    historyController.push("exit1");
+    historyController.push("exit");
+    historyController.push("login --PASSWORD=hunter2");
+    historyController.push("cd.");
+
+    expect(historyController.items).toEqual(["ls -la", "exit", "cd."]);
+  });
+
+  test("history.getPrev(), history.getNext() w/ prefix", () => {
+    const historyController = new History(10);
+
+    historyController.push("git status");
+    historyController.push("ls");
+    historyController.push("git commit");
+
+    expect(historyController.getPrev("git")).toEqual("git commit");
+    expect(historyController.getPrev("git")).toEqual("git status");
+    expect(historyController.getPrev("git")).toBeUndefined();
+    expect(historyController.getNext("git")).toEqual("git commit");
+    expect(historyController.getNext("git")).toBeUndefined();
+    expect(historyController.getPrev("l")).toEqual("ls");
+  });
+
+  test("history draft and edits", () => {
+    const historyController = new History(10);
+
+    historyController.push("1");
+    historyController.push("2");
+
+    expect(historyController.getNext("", "draft")).toBeUndefined();
+    expect(historyController.getPrev("", "draft")).toEqual("2");
+    expect(historyController.getPrev("", "2 edited")).toEqual("1");
+    expect(historyController.getNext("", "1")).toEqual("2 edited");
+    expect(historyController.isBrowsing()).toEqual(true);
+    expect(historyController.getNext("", "2 edited")).toEqual("draft");
+    expect(historyController.isBrowsing()).toEqual(false);
+    expect(historyController.getPrev("", "draft")).toEqual("2 edited");
+
+    historyController.push("3");
+
+    expect(historyController.items).toEqual(["1", "2", "3"]);
+    expect(historyController.getPrev("", "")).toEqual("3");
+    expect(historyController.getPrev("", "3")).toEqual("2");
+    expect(historyController.getNext("", "2")).toEqual("3");
+    expect(historyController.getNext("", "3")).toEqual("");
+  });
 });
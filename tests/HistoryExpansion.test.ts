@@ -0,0 +1,43 @@
+import { expandHistory, HistoryExpansionError } from '../src/HistoryExpansion';
+
+const items = [
+  'git status',
+  'ls -la /tmp',
+  'echo "hello world"',
+  'cat foo.txt',
+];
+
+test('expandHistory(); No references', () => {
+  expect(expandHistory('echo hi', items)).toEqual('echo hi');
+  expect(expandHistory('echo hi!', items)).toEqual('echo hi!');
+  expect(expandHistory('echo ! = !(x)', items)).toEqual('echo ! = !(x)');
+  expect(expandHistory("echo '!!'", items)).toEqual("echo '!!'");
+  expect(expandHistory('echo \\!!', items)).toEqual('echo \\!!');
+});
+
+test('expandHistory(); Event designators', () => {
+  expect(expandHistory('!!', items)).toEqual('cat foo.txt');
+  expect(expandHistory('sudo !!', items)).toEqual('sudo cat foo.txt');
+  expect(expandHistory('vim !$', items)).toEqual('vim foo.txt');
+  expect(expandHistory('!1', items)).toEqual('git status');
+  expect(expandHistory('!-2', items)).toEqual('echo "hello world"');
+  expect(expandHistory('!ls', items)).toEqual('ls -la /tmp');
+  expect(expandHistory('!git && !ec', items)).toEqual(
+    'git status && echo "hello world"'
+  );
+  expect(expandHistory('!?tmp?', items)).toEqual('ls -la /tmp');
+  expect(expandHistory('!?world', items)).toEqual('echo "hello world"');
+  expect(expandHistory('echo "!!"', items)).toEqual('echo "cat foo.txt"');
+});
+
+test('expandHistory(); Quick substitution', () => {
+  expect(expandHistory('^foo^bar^', items)).toEqual('cat bar.txt');
+  expect(expandHistory('^foo^bar', items)).toEqual('cat bar.txt');
+  expect(() => expandHistory('^baz^bar', items)).toThrow(HistoryExpansionError);
+});
+
+test('expandHistory(); Event not found', () => {
+  expect(() => expandHistory('!nope', items)).toThrow('!nope: event not found');
+  expect(() => expandHistory('!9', items)).toThrow('!9: event not found');
+  expect(() => expandHistory('!!', [])).toThrow('!!: event not found');
+});
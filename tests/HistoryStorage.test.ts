@@ -0,0 +1,95 @@
+import { History } from '../src/History';
+import {
+  LocalStorageHistoryStorage,
+  MemoryHistoryStorage,
+} from '../src/HistoryStorage';
+
+function createStorage(): Storage {
+  const data = new Map<string, string>();
+
+  return {
+    get length() {
+      return data.size;
+    },
+    clear: () => data.clear(),
+    getItem: (key) => data.get(key) ?? null,
+    key: (index) => Array.from(data.keys())[index] ?? null,
+    removeItem: (key) => data.delete(key),
+    setItem: (key, value) => data.set(key, value),
+  };
+}
+
+test('MemoryHistoryStorage', () => {
+  const storage = new MemoryHistoryStorage(2);
+
+  storage.append('1');
+  storage.append('2');
+  storage.append('3');
+
+  expect(storage.load()).toEqual(['2', '3']);
+
+  storage.clear();
+
+  expect(storage.load()).toEqual([]);
+});
+
+test('LocalStorageHistoryStorage', () => {
+  const local = createStorage();
+  const storage = new LocalStorageHistoryStorage('history', 2, local);
+
+  storage.append('1');
+  storage.append('2');
+  storage.append('3');
+
+  expect(storage.load()).toEqual(['2', '3']);
+  expect(local.getItem('history')).toEqual('["2","3"]');
+
+  local.setItem('history', 'not json');
+
+  expect(storage.load()).toEqual([]);
+
+  storage.clear();
+
+  expect(local.getItem('history')).toBeNull();
+});
+
+test('History w/ storage', async () => {
+  const storage = new MemoryHistoryStorage();
+
+  storage.append('1');
+
+  const history = new History(10, { storage });
+
+  history.push('2');
+
+  await history.load();
+
+  expect(history.items).toEqual(['1', '2']);
+  expect(storage.load()).toEqual(['1', '2']);
+
+  await history.clear();
+
+  expect(history.items).toEqual([]);
+  expect(storage.load()).toEqual([]);
+});
+
+test('History w/ shared storage', async () => {
+  const local = createStorage();
+  const first = new History(10, {
+    storage: new LocalStorageHistoryStorage('history', 100, local),
+  });
+  const second = new History(10, {
+    storage: new LocalStorageHistoryStorage('history', 100, local),
+  });
+
+  first.push('a');
+  second.push('b');
+  first.push('c');
+
+  await first.load();
+  await second.load();
+
+  expect(first.items).toEqual(['a', 'b', 'c']);
+  expect(second.items).toEqual(['a', 'b', 'c']);
+  expect(second.getPrev()).toEqual('c');
+});
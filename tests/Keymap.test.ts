@@ -0,0 +1,76 @@
+import { EMACS_BINDINGS, Keymap, parseKeys } from '../src/Keymap';
+
+test('parseKeys()', () => {
+  expect(parseKeys('a')).toEqual('a');
+  expect(parseKeys('Ctrl+A')).toEqual('\x01');
+  expect(parseKeys('ctrl+e')).toEqual('\x05');
+  expect(parseKeys('Ctrl+_')).toEqual('\x1F');
+  expect(parseKeys('Alt+F')).toEqual('\x1Bf');
+  expect(parseKeys('Alt+Backspace')).toEqual('\x1B\x7F');
+  expect(parseKeys('Up')).toEqual('\x1B[A');
+  expect(parseKeys('Ctrl+X Ctrl+U')).toEqual('\x18\x15');
+  expect(parseKeys('d d')).toEqual('dd');
+  expect(parseKeys('\x1B[1;5C')).toEqual('\x1B[1;5C');
+});
+
+test('Keymap.resolve()', () => {
+  const keymap = new Keymap(EMACS_BINDINGS);
+
+  expect(keymap.resolve('\x01')).toEqual('beginning-of-line');
+  expect(keymap.resolve('\x1B[D')).toEqual('backward-char');
+  expect(keymap.resolve('a')).toEqual('self-insert');
+  expect(keymap.resolve('abc')).toEqual('self-insert');
+  expect(keymap.resolve('\x07')).toBeUndefined();
+});
+
+test('Keymap.resolve(); Key sequences', () => {
+  const keymap = new Keymap({ 'd d': 'kill-whole-line', 'x': 'delete-char' });
+
+  expect(keymap.resolve('d')).toBeUndefined();
+  expect(keymap.pending).toEqual(true);
+  expect(keymap.resolve('d')).toEqual('kill-whole-line');
+  expect(keymap.pending).toEqual(false);
+
+  // Unbound key sequence is discarded, and the last key resolved by itself.
+  expect(keymap.resolve('d')).toBeUndefined();
+  expect(keymap.resolve('q')).toEqual('self-insert');
+  expect(keymap.pending).toEqual(false);
+  expect(keymap.resolve('d')).toBeUndefined();
+  expect(keymap.resolve('x')).toEqual('delete-char');
+  expect(keymap.pending).toEqual(false);
+});
+
+test('Keymap.resolve(); Escape prefix', () => {
+  const keymap = new Keymap(EMACS_BINDINGS);
+
+  // Escape key is a prefix of Alt key bindings, until another key follows.
+  expect(keymap.resolve('\x1B')).toBeUndefined();
+  expect(keymap.pending).toEqual(true);
+  expect(keymap.resolve('\x1B[D')).toEqual('backward-char');
+  expect(keymap.resolve('\x1B')).toBeUndefined();
+  expect(keymap.resolve('\x1B')).toBeUndefined();
+  expect(keymap.resolve('f')).toEqual('forward-word');
+});
+
+test('Keymap.resolve(); Command keymap', () => {
+  const keymap = new Keymap({ h: 'backward-char' }, false);
+
+  expect(keymap.resolve('h')).toEqual('backward-char');
+  expect(keymap.resolve('z')).toBeUndefined();
+});
+
+test('Keymap.bind(), Keymap.unbind()', () => {
+  const keymap = new Keymap(EMACS_BINDINGS);
+
+  keymap.bind('Ctrl+A', 'end-of-line');
+  keymap.bind('Ctrl+X Ctrl+K', 'kill-whole-line');
+
+  expect(keymap.get('Ctrl+A')).toEqual('end-of-line');
+  expect(keymap.resolve('\x18')).toBeUndefined();
+  expect(keymap.resolve('\x0B')).toEqual('kill-whole-line');
+
+  keymap.unbind('Ctrl+A');
+
+  expect(keymap.get('Ctrl+A')).toBeUndefined();
+  expect(keymap.resolve('\x01')).toBeUndefined();
+});
@@ -0,0 +1,41 @@
+import { KillRing } from '../src/KillRing';
+
+test('push()', () => {
+  const ring = new KillRing(2);
+
+  ring.push('a');
+  ring.push('b');
+  ring.push('c');
+
+  expect(ring.items).toEqual(['b', 'c']);
+
+  ring.push('d', true);
+  ring.push('e', true, true);
+
+  expect(ring.items).toEqual(['b', 'ecd']);
+});
+
+test('push(); Empty', () => {
+  const ring = new KillRing(0);
+
+  ring.push('a');
+  ring.push('b', true);
+
+  expect(ring.items).toEqual([]);
+  expect(ring.yank()).toBeUndefined();
+  expect(ring.rotate()).toBeUndefined();
+});
+
+test('yank() and rotate()', () => {
+  const ring = new KillRing(10);
+
+  ring.push('a');
+  ring.push('b');
+  ring.push('c');
+
+  expect(ring.yank()).toEqual('c');
+  expect(ring.rotate()).toEqual('b');
+  expect(ring.rotate()).toEqual('a');
+  expect(ring.rotate()).toEqual('c');
+  expect(ring.yank()).toEqual('c');
+});
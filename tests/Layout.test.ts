@@ -0,0 +1,55 @@
+import { Layout } from '../src/Layout';
+
+test('Layout; Prompt offsets', () => {
+  const layout = new Layout('echo', 20, { ps1: '\u001b[32m$\u001b[0m ' });
+
+  expect(layout.getPosition(0)).toEqual({ col: 2, row: 0 });
+  expect(layout.getPosition(4)).toEqual({ col: 6, row: 0 });
+  expect(layout.rows).toEqual(1);
+});
+
+test('Layout; Continuation prompt', () => {
+  const layout = new Layout('echo "a\nb"', 20, { ps1: '$ ', ps2: '> ' });
+
+  expect(layout.getPosition(7)).toEqual({ col: 9, row: 0 });
+  expect(layout.getPosition(8)).toEqual({ col: 2, row: 1 });
+  expect(layout.end).toEqual({ col: 4, row: 1 });
+  expect(layout.rows).toEqual(2);
+});
+
+test('Layout; Soft-wrap', () => {
+  const layout = new Layout('abcdefgh', 5, { ps1: '$ ' });
+
+  expect(layout.getPosition(2)).toEqual({ col: 4, row: 0 });
+  expect(layout.getPosition(3)).toEqual({ col: 0, row: 1 });
+  expect(layout.getPosition(8)).toEqual({ col: 0, row: 2 });
+  expect(layout.wrapped).toEqual(true);
+  expect(layout.rows).toEqual(3);
+});
+
+test('Layout; Soft-wrap followed by newline', () => {
+  const layout = new Layout('abc\nd', 5, { ps1: '$ ', ps2: '' });
+
+  expect(layout.getPosition(3)).toEqual({ col: 4, row: 0 });
+  expect(layout.getPosition(4)).toEqual({ col: 0, row: 1 });
+  expect(layout.end).toEqual({ col: 1, row: 1 });
+  expect(layout.wrapped).toEqual(false);
+});
+
+test('Layout; Wide characters', () => {
+  const layout = new Layout('ab漢字', 5, { ps1: '$ ' });
+
+  expect(layout.getPosition(2)).toEqual({ col: 0, row: 1 });
+  expect(layout.getPosition(3)).toEqual({ col: 2, row: 1 });
+  expect(layout.end).toEqual({ col: 4, row: 1 });
+});
+
+test('Layout; Resize', () => {
+  const input = 'echo some longer input';
+
+  expect(new Layout(input, 80, { ps1: '$ ' }).rows).toEqual(1);
+  expect(new Layout(input, 10, { ps1: '$ ' }).getPosition(10)).toEqual({
+    col: 2,
+    row: 1,
+  });
+});
@@ -0,0 +1,1050 @@
+import {
+  HistoryExpansionError,
+  TabCompleteContext,
+  createShellHighlighter,
+} from '../src/LocalEchoAddon';
+import { TestHarness } from '../src/Testing';
+import { getActiveStyle } from '../src/Unicode';
+
+/**
+ * Get settled state of defined promise, w/o waiting for it.
+ *
+ * @param promise Promise.
+ */
+async function getState(promise: Promise<unknown>) {
+  const pending = {};
+  const value = await Promise.race([promise, Promise.resolve(pending)]);
+
+  return value === pending ? 'pending' : value;
+}
+
+test('read(); Emacs editing', async () => {
+  const harness = new TestHarness();
+  const read = harness.addon.read('$ ');
+
+  // Transpose characters before and at the cursor.
+  harness.type('abc');
+  harness.press('Left', 'Ctrl+T', 'Enter');
+
+  expect(await read).toEqual('acb');
+
+  const kill = harness.addon.read('$ ', '> ', { normalize: null });
+
+  // Kill word after the cursor, and word before it.
+  harness.type('foo bar baz');
+  harness.press('Ctrl+A', 'Alt+D', 'Ctrl+E', 'Ctrl+W', 'Enter');
+
+  expect(await kill).toEqual(' bar ');
+});
+
+test('read(); Emacs editing, escape prefix', async () => {
+  const harness = new TestHarness();
+  const read = harness.addon.read('$ ');
+
+  // Escape key doesn't swallow the key pressed after it.
+  harness.type('ls');
+  harness.press('Escape', 'Left', 'x', 'Escape', 'Alt+F', '!', 'Enter');
+
+  expect(await read).toEqual('lxs!');
+});
+
+test('read(); Vi editing', async () => {
+  const harness = new TestHarness({ keymap: 'vi' });
+  const read = harness.addon.read('$ ');
+
+  // Escape switches to command mode, and insert commands switch back.
+  harness.type('foo bar');
+  harness.press('Escape', '0', 'x', 'd', 'w', 'i', 'x', 'Enter');
+
+  expect(await read).toEqual('x bar');
+
+  // Each read starts in insert mode.
+  const next = harness.addon.read('$ ');
+
+  harness.type('ls');
+  harness.press('Escape', 'A', '!', 'Enter');
+
+  expect(await next).toEqual('ls!');
+});
+
+test('bindKey(), unbindKey()', async () => {
+  const harness = new TestHarness({ keymap: 'vi' });
+
+  harness.addon.bindKey('Ctrl+X Ctrl+K', 'kill-whole-line');
+  harness.addon.bindKey('Ctrl+A', 'end-of-line');
+  harness.addon.bindKey('q', 'vi-append-eol', 'vi-command');
+  harness.addon.unbindKey('Left');
+
+  const read = harness.addon.read('$ ');
+
+  harness.type('foo');
+  harness.press('Ctrl+X', 'Ctrl+K', 'p', 'w', 'd', 'Left', '!');
+  harness.press('Escape', '0', 'q', '?', 'Escape', '0', 'i', 'Ctrl+A', '.');
+  harness.press('Enter');
+
+  expect(await read).toEqual('pwd!?.');
+});
+
+test('read(); Reverse history search', async () => {
+  const harness = new TestHarness();
+
+  ['git status', 'ls -la', 'git stash', 'pwd'].forEach((e) => {
+    harness.addon.history.push(e);
+  });
+
+  const read = harness.addon.read('$ ');
+
+  harness.type('draft');
+  harness.press('Ctrl+R');
+  harness.type('git');
+
+  expect(harness.lines).toEqual(["(reverse-i-search)`git': git stash"]);
+
+  // Repeated searches cycle through older matches, until none are found.
+  harness.press('Ctrl+R');
+
+  expect(harness.lines).toEqual(["(reverse-i-search)`git': git status"]);
+
+  harness.press('Ctrl+R');
+
+  expect(harness.lines).toEqual(["(failed reverse-i-search)`git': git status"]);
+
+  // Cancelling restores the input from before the search.
+  harness.press('Escape');
+
+  expect(harness.lines).toEqual(['$ draft']);
+
+  harness.press('Enter');
+
+  expect(await read).toEqual('draft');
+
+  const match = harness.addon.read('$ ');
+
+  harness.press('Ctrl+R');
+  harness.type('ls');
+  harness.press('Enter');
+
+  expect(await match).toEqual('ls -la');
+});
+
+test('read(); History prefix search', async () => {
+  const harness = new TestHarness({ historySearchPrefix: true });
+
+  ['ls -la', 'git status', 'git stash', 'git log'].forEach((e) => {
+    harness.addon.history.push(e);
+  });
+
+  const read = harness.addon.read('$ ');
+
+  // Edits start the search over w/ the input before the cursor.
+  harness.type('git');
+  harness.press('Up', 'Ctrl+E', 'Backspace', 'Backspace', 'Backspace');
+  harness.type('st');
+  harness.press('Up', 'Up', '!', 'Enter');
+
+  expect(await read).toEqual('git st!atus');
+});
+
+test('read(); History expansion', async () => {
+  const harness = new TestHarness({ historyExpansion: true });
+
+  harness.addon.history.push('ls -la');
+
+  const read = harness.addon.read('$ ');
+
+  harness.type('sudo !!');
+  harness.press('Enter');
+
+  // Expanded input is printed below the input, and kept in history.
+  expect(await read).toEqual('sudo ls -la');
+  expect(harness.lines).toEqual(['$ sudo !!', 'sudo ls -la']);
+  expect(harness.addon.history.items).toEqual(['ls -la', 'sudo ls -la']);
+});
+
+test('read(); History expansion, verify', async () => {
+  const harness = new TestHarness({
+    historyExpansion: true,
+    historyVerify: true,
+  });
+
+  harness.addon.history.push('ls -la');
+
+  const read = harness.addon.read('$ ');
+
+  harness.type('!! | wc');
+  harness.press('Enter');
+
+  // Expanded input is put back for editing.
+  expect(await getState(read)).toEqual('pending');
+  expect(harness.lines).toEqual(['$ ls -la | wc']);
+
+  harness.type(' -l');
+  harness.press('Enter');
+
+  expect(await read).toEqual('ls -la | wc -l');
+});
+
+test('read(); History expansion, reprompt', async () => {
+  const harness = new TestHarness({ historyExpansion: true });
+
+  harness.addon.history.push('ls -la');
+
+  const read = harness.addon.read('$ ');
+
+  harness.type('!foo');
+  harness.press('Enter');
+
+  expect(await getState(read)).toEqual('pending');
+  expect(harness.lines).toEqual(['$ !foo', '!foo: event not found', '$']);
+
+  harness.type('!l');
+  harness.press('Enter');
+
+  expect(await read).toEqual('ls -la');
+});
+
+test('read(); History expansion, reject', async () => {
+  const harness = new TestHarness({
+    historyExpansion: true,
+    historyExpansionError: 'reject',
+  });
+  const read = harness.addon.read('$ ');
+
+  harness.type('echo !-2');
+  harness.press('Enter');
+
+  await expect(read).rejects.toEqual(new HistoryExpansionError('!-2'));
+  expect(harness.addon.history.items).toEqual([]);
+});
+
+test('read(); Tab complete suffix', async () => {
+  const harness = new TestHarness();
+
+  harness.addon.addTabCompleteHandler(() => [
+    'README',
+    { label: 'src', kind: 'dir' },
+  ]);
+
+  const read = harness.addon.read('$ ');
+
+  // Suffix whitespace is skipped if whitespace follows the cursor already.
+  harness.type('ls RE -l');
+  harness.press('Left', 'Left', 'Left', 'Tab');
+  await harness.settle();
+  harness.press('Enter');
+
+  expect(await read).toEqual('ls README -l');
+
+  const dir = harness.addon.read('$ ');
+
+  harness.type('cd s -P');
+  harness.press('Left', 'Left', 'Left', 'Tab');
+  await harness.settle();
+  harness.press('Enter');
+
+  expect(await dir).toEqual('cd src/ -P');
+});
+
+test('read(); Completion menu', async () => {
+  const harness = new TestHarness({ tabCompleteMenu: true }, 30, 5);
+
+  harness.addon.addTabCompleteHandler(() => ['start', 'status', 'stop']);
+
+  const read = harness.addon.read('$ ');
+
+  harness.type('git st');
+  harness.press('Tab');
+  await harness.settle();
+
+  expect(harness.lines).toEqual(['$ git start', 'start   status  stop']);
+
+  // Tab and arrows select items, and Enter accepts the selected one.
+  harness.press('Tab', 'Right');
+
+  expect(harness.lines).toEqual(['$ git stop', 'start   status  stop']);
+
+  harness.press('Enter');
+
+  expect(await getState(read)).toEqual('pending');
+  expect(harness.lines).toEqual(['$ git stop']);
+
+  harness.press('Enter');
+
+  expect(await read).toEqual('git stop');
+
+  // Escape restores the input from before the menu was displayed.
+  const cancel = harness.addon.read('$ ');
+
+  harness.type('git st');
+  harness.press('Tab');
+  await harness.settle();
+  harness.press('Tab', 'Escape');
+
+  expect(harness.lines.slice(-1)).toEqual(['$ git st']);
+
+  harness.press('Enter');
+
+  expect(await cancel).toEqual('git st');
+});
+
+test('read(); Completion menu, input changes', async () => {
+  const harness = new TestHarness({ tabCompleteMenu: true }, 30, 5);
+
+  harness.addon.addTabCompleteHandler(() => ['start', 'status', 'stop']);
+
+  const read = harness.addon.read('$ ');
+
+  // Other keys accept the selected item, and are handled as usual.
+  harness.type('git st');
+  harness.press('Tab');
+  await harness.settle();
+  harness.press('Tab', '!');
+
+  expect(harness.lines).toEqual(['$ git status!']);
+
+  harness.press('Ctrl+W');
+  harness.type('st');
+  harness.press('Tab');
+  await harness.settle();
+  harness.press('Backspace', 'Enter');
+
+  expect(await read).toEqual('git star');
+});
+
+test('read(); Completion menu, resize', async () => {
+  const harness = new TestHarness({ tabCompleteMenu: true }, 30, 5);
+
+  harness.addon.addTabCompleteHandler(() => ['start', 'status', 'stop']);
+
+  const read = harness.addon.read('$ ');
+
+  harness.type('git st');
+  harness.press('Tab');
+  await harness.settle();
+
+  // Menu is displayed again w/ as many columns as fit the new width.
+  harness.terminal.resize(12, 5);
+
+  expect(harness.lines).toEqual(['$ git start', 'start', 'status', 'stop']);
+
+  harness.press('Tab', 'Enter', 'Enter');
+
+  expect(await read).toEqual('git status');
+});
+
+test('read(); Tab complete timeout', async () => {
+  const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+  const harness = new TestHarness({ tabCompleteTimeout: 5 });
+  const signals: AbortSignal[] = [];
+
+  harness.addon.addTabCompleteHandler(
+    (index: number, context: TabCompleteContext) => {
+      signals.push(context.signal);
+
+      return new Promise(() => {});
+    }
+  );
+
+  const read = harness.addon.read('$ ');
+
+  harness.type('git st');
+  harness.press('Tab');
+  await new Promise((resolve) => setTimeout(resolve, 20));
+
+  // Timed out handlers are aborted, and no tab is inserted.
+  expect(signals[0].aborted).toEqual(true);
+  expect(error).not.toHaveBeenCalled();
+
+  harness.press('Enter');
+
+  expect(await read).toEqual('git st');
+
+  error.mockRestore();
+});
+
+test('read(); Tab complete, stale suggestions', async () => {
+  const harness = new TestHarness();
+  const signals: AbortSignal[] = [];
+
+  let release: Function = () => {};
+
+  harness.addon.addTabCompleteHandler(
+    (index: number, context: TabCompleteContext) => {
+      signals.push(context.signal);
+
+      return new Promise((resolve) => (release = resolve));
+    }
+  );
+
+  const read = harness.addon.read('$ ');
+
+  harness.type('git st');
+  harness.press('Tab');
+  harness.type('op');
+  release(['status']);
+  await harness.settle();
+
+  // Suggestions for input changed since are discarded.
+  expect(signals[0].aborted).toEqual(true);
+
+  harness.press('Enter');
+
+  expect(await read).toEqual('git stop');
+});
+
+test('read(); Tab complete cache', async () => {
+  const harness = new TestHarness({ tabCompleteCache: 60000 });
+  const handler = jest.fn(() => ['status']);
+
+  handler.mockImplementationOnce(() => {
+    throw new Error('Failed');
+  });
+
+  harness.addon.addTabCompleteHandler(handler);
+  harness.addon.read('$ ');
+
+  // Failed suggestions aren't cached.
+  harness.type('git st');
+  harness.press('Tab');
+  await harness.settle();
+  harness.press('Tab');
+  await harness.settle();
+  harness.press('Ctrl+W');
+  harness.type('st');
+  harness.press('Tab');
+  await harness.settle();
+
+  expect(harness.input).toEqual('git status ');
+  expect(handler).toHaveBeenCalledTimes(2);
+});
+
+test('read(); Tab complete cache, text after cursor', async () => {
+  const harness = new TestHarness({ tabCompleteCache: 60000 });
+  const handler = jest.fn((index: number, context: TabCompleteContext) => {
+    return context.args.includes('-p') ? ['show'] : ['show', 'stash'];
+  });
+
+  harness.addon.addTabCompleteHandler(handler);
+
+  const read = harness.addon.read('$ ');
+
+  // Suggestions are cached for the whole input, not only the text before
+  // the cursor.
+  harness.type('git s');
+  harness.press('Tab');
+  await harness.settle();
+  harness.type(' -p');
+  harness.press('Left', 'Left', 'Left', 'Tab');
+  await harness.settle();
+  harness.press('Enter');
+
+  expect(await read).toEqual('git show -p');
+  expect(handler).toHaveBeenCalledTimes(2);
+});
+
+test('read(); Autosuggestions', async () => {
+  const harness = new TestHarness({ autosuggest: true });
+
+  harness.addon.history.push('git status --short');
+
+  const read = harness.addon.read('$ ');
+
+  harness.type('git st');
+  await harness.settle();
+
+  // Suggestion is displayed dimmed after the cursor.
+  expect(harness.lines).toEqual(['$ git status --short']);
+  expect(harness.terminal.written.join('')).toContain(
+    '\x1B[2matus --short\x1B[22m'
+  );
+  expect(harness.terminal.cursor).toEqual({ col: 8, row: 0 });
+  expect(harness.input).toEqual('git st');
+
+  // Suggestion is cleared once the input doesn't match it.
+  harness.type('x');
+  await harness.settle();
+
+  expect(harness.lines).toEqual(['$ git stx']);
+
+  harness.press('Backspace');
+  await harness.settle();
+  harness.press('Right');
+
+  expect(harness.lines).toEqual(['$ git status --short']);
+  expect(harness.terminal.cursor).toEqual({ col: 20, row: 0 });
+
+  harness.press('Enter');
+
+  expect(await read).toEqual('git status --short');
+});
+
+test('read(); Autosuggestions, accept word', async () => {
+  const harness = new TestHarness({ autosuggest: true });
+
+  harness.addon.history.push('git status --short');
+
+  const read = harness.addon.read('$ ');
+
+  harness.type('git st');
+  await harness.settle();
+  harness.press('Alt+F');
+  await harness.settle();
+
+  expect(harness.input).toEqual('git status');
+  expect(harness.lines).toEqual(['$ git status --short']);
+  expect(harness.terminal.cursor).toEqual({ col: 12, row: 0 });
+
+  harness.press('!', 'Enter');
+
+  expect(await read).toEqual('git status!');
+});
+
+test('read(); Autosuggestions at terminal width', async () => {
+  const harness = new TestHarness({ autosuggest: true }, 20, 5);
+
+  harness.addon.history.push('git status --short');
+
+  const read = harness.addon.read('$ ');
+
+  harness.type('git st');
+  await harness.settle();
+
+  // Suggestion ending at the last column wraps the cursor to the next row,
+  // and it's moved back after the input.
+  expect(harness.lines).toEqual(['$ git status --short']);
+  expect(harness.terminal.cursor).toEqual({ col: 8, row: 0 });
+
+  harness.press('End');
+
+  expect(harness.lines).toEqual(['$ git status --short']);
+  expect(harness.terminal.cursor).toEqual({ col: 0, row: 1 });
+
+  harness.press('Backspace');
+  await harness.settle();
+
+  expect(harness.lines).toEqual(['$ git status --short']);
+  expect(harness.terminal.cursor).toEqual({ col: 19, row: 0 });
+
+  harness.press('Enter');
+
+  expect(await read).toEqual('git status --shor');
+  expect(harness.lines).toEqual(['$ git status --shor']);
+});
+
+test('read(); Autosuggestions, interrupt', async () => {
+  const signals: AbortSignal[] = [];
+
+  let release: Function = () => {};
+
+  const harness = new TestHarness({
+    autosuggest: true,
+    autosuggestProviders: [
+      {
+        suggest: (input, signal) => {
+          signals.push(signal);
+
+          return new Promise((resolve) => (release = resolve));
+        },
+      },
+    ],
+  });
+  const read = harness.addon.read('$ ');
+
+  harness.type('git');
+  release('git log');
+  await harness.settle();
+  harness.type(' ');
+  harness.press('Ctrl+C');
+  release('git log');
+  await harness.settle();
+
+  // Displayed suggestion is cleared, and pending one cancelled.
+  expect(harness.lines).toEqual(['$ git ^C', '$']);
+  expect(signals[signals.length - 1].aborted).toEqual(true);
+
+  harness.type('ls');
+  harness.press('Enter');
+
+  expect(await read).toEqual('ls');
+});
+
+test('read(); Highlighted continuation', async () => {
+  const harness = new TestHarness({ highlighter: createShellHighlighter() });
+  const read = harness.addon.read('$ ', '> ');
+
+  harness.type("echo 'a");
+  harness.press('Enter');
+  harness.type("b' | wc");
+
+  // Styles are reset before the continuation prompt, and restored after it.
+  const raw = harness.terminal.written.join('');
+  const index = raw.indexOf('\r\n> ');
+
+  expect(getActiveStyle(raw.substring(0, index))).toEqual('');
+  expect(raw.substring(index)).toMatch(/^\r\n> \x1B\[33m/);
+  expect(harness.lines).toEqual(["$ echo 'a", "> b' | wc"]);
+
+  harness.press('Enter');
+
+  expect(await read).toEqual("echo 'a\nb' | wc");
+});
+
+test('read(); Accept line', async () => {
+  const harness = new TestHarness();
+  const read = harness.addon.read('$ ');
+
+  harness.type('ls');
+  harness.press('Enter');
+
+  expect(await read).toEqual('ls');
+});
+
+test('read(); Incomplete input', async () => {
+  const harness = new TestHarness();
+  const read = harness.addon.read('$ ', '> ');
+
+  harness.type('ls &&');
+  harness.press('Enter');
+
+  expect(await getState(read)).toEqual('pending');
+
+  harness.type('pwd');
+  harness.press('Enter');
+
+  expect(await read).toEqual('ls &&\npwd');
+});
+
+test('read(); Incomplete input, cursor mid-line', async () => {
+  const harness = new TestHarness();
+  const read = harness.addon.read('$ ', '> ');
+
+  harness.type('echo "abc');
+  harness.press('Left', 'Left', 'Ctrl+A', 'Right', 'Enter');
+
+  expect(await getState(read)).toEqual('pending');
+
+  harness.type('"');
+  harness.press('Enter');
+
+  expect(await read).toEqual('echo "abc\n"');
+});
+
+test('read(); Incomplete input disabled', async () => {
+  const harness = new TestHarness({ incompleteEnabled: false });
+  const read = harness.addon.read('$ ');
+
+  harness.type('ls &&');
+  harness.press('Enter');
+
+  expect(await read).toEqual('ls &&');
+});
+
+test('read(); Completeness callback', async () => {
+  const harness = new TestHarness();
+  const read = harness.addon.read('sql> ', '  -> ', {
+    isComplete: async (input) => input.endsWith(';'),
+  });
+
+  harness.type('SELECT 1');
+  harness.press('Enter');
+  await harness.settle();
+
+  expect(await getState(read)).toEqual('pending');
+
+  harness.type(';');
+  harness.press('Enter');
+
+  expect(await read).toEqual('SELECT 1\n;');
+});
+
+test('read(); Validation', async () => {
+  const harness = new TestHarness();
+  const read = harness.addon.read('$ ', '> ', {
+    validate: (input) => (input === 'rm' ? 'rm: not allowed' : null),
+  });
+
+  harness.type('rm');
+  harness.press('Enter');
+
+  expect(await getState(read)).toEqual('pending');
+  expect(harness.lines).toEqual(['$ rm', 'rm: not allowed']);
+
+  harness.type('dir');
+  harness.press('Enter');
+
+  expect(await read).toEqual('rmdir');
+});
+
+test('read(); Validation, async and thrown', async () => {
+  const harness = new TestHarness();
+  const read = harness.addon.read('$ ', '> ', {
+    validate: async (input) => {
+      if (input.length < 3) {
+        throw new Error('too short');
+      }
+
+      return null;
+    },
+  });
+
+  harness.type('ab');
+  harness.press('Enter');
+  await harness.settle();
+
+  expect(await getState(read)).toEqual('pending');
+  expect(harness.lines).toEqual(['$ ab', 'too short']);
+
+  harness.type('c');
+  harness.press('Enter');
+
+  expect(await read).toEqual('abc');
+});
+
+test('read(); Validation, incomplete input', async () => {
+  const validate = jest.fn(() => null);
+  const harness = new TestHarness();
+  const read = harness.addon.read('$ ', '> ', { validate });
+
+  harness.type('ls |');
+  harness.press('Enter');
+
+  expect(validate).not.toHaveBeenCalled();
+
+  harness.type('wc');
+  harness.press('Enter');
+
+  expect(validate).toHaveBeenCalledWith('ls |\nwc');
+  expect(await read).toEqual('ls |\nwc');
+});
+
+test('read(); Normalization', async () => {
+  const harness = new TestHarness();
+  const read = harness.addon.read('$ ', '> ');
+
+  harness.type('echo a \\');
+  harness.press('Enter');
+  harness.type('b');
+  harness.press('Enter');
+
+  expect(await read).toEqual('echo a b');
+
+  const trim = harness.addon.read('$ ', '> ');
+
+  harness.type(' ls \\');
+  harness.press('Enter');
+  harness.type('-la ');
+  harness.press('Enter');
+
+  // History is kept as typed.
+  expect(await trim).toEqual('ls -la');
+  expect(harness.addon.history.items).toEqual(['echo a \\\nb', ' ls \\\n-la ']);
+});
+
+test('read(); Normalization, history control', async () => {
+  const harness = new TestHarness({ historyControl: ['ignorespace'] });
+  const read = harness.addon.read('$ ');
+
+  harness.type(' pwd');
+  harness.press('Enter');
+
+  expect(await read).toEqual('pwd');
+  expect(harness.addon.history.items).toEqual([]);
+});
+
+test('read(); Normalization, custom', async () => {
+  const harness = new TestHarness();
+  const read = harness.addon.read('$ ', '> ', { normalize: null });
+
+  harness.type(' ls ');
+  harness.press('Enter');
+
+  expect(await read).toEqual(' ls ');
+
+  const upper = harness.addon.read('$ ', '> ', {
+    normalize: (input) => input.toUpperCase(),
+  });
+
+  harness.type('ls');
+  harness.press('Enter');
+
+  expect(await upper).toEqual('LS');
+});
+
+test('read(); Pasted lines', async () => {
+  const harness = new TestHarness();
+  const read = harness.addon.read('$ ', '> ', { isComplete: () => true });
+
+  // Lines sent w/o bracketed paste are accepted as typed.
+  harness.terminal.send('ls\rpwd');
+
+  expect(await read).toEqual('ls');
+});
+
+test('read(); Kill ring', async () => {
+  const harness = new TestHarness();
+  const read = harness.addon.read('$ ');
+
+  // Consecutive forward kills are appended, and backward kills prepended.
+  harness.type('foo bar baz');
+  harness.press('Ctrl+A', 'Alt+D', 'Alt+D');
+  harness.press('Ctrl+E', 'Ctrl+W', 'Ctrl+W');
+
+  expect(harness.addon.killRing.items).toEqual(['foo bar', ' baz']);
+
+  // Yank most recent kill, then rotate to the previous one.
+  harness.press('Ctrl+Y');
+  harness.press('Alt+Y');
+  harness.press('!', 'Alt+Y', 'Enter');
+
+  expect(await read).toEqual('foo bar!');
+});
+
+test('read(); Kill ring size', async () => {
+  const harness = new TestHarness({ killRingSize: 1 });
+
+  harness.addon.read('$ ');
+  harness.type('foo');
+  harness.press('Ctrl+U');
+  harness.type('bar');
+  harness.press('Ctrl+U');
+
+  expect(harness.addon.killRing.items).toEqual(['bar']);
+});
+
+test('read(); Undo and redo', async () => {
+  const harness = new TestHarness();
+  const read = harness.addon.read('$ ');
+
+  // Typed words, and consecutive deletions, are undone together.
+  harness.type('echo foo');
+  harness.press('Backspace', 'Backspace');
+  harness.press('Ctrl+_');
+  harness.press('Ctrl+_');
+  harness.press('Ctrl+X Ctrl+U');
+  harness.press('Ctrl+_');
+
+  harness.press('Ctrl+X Ctrl+R', 'Ctrl+X Ctrl+R', 'Enter');
+
+  expect(await read).toEqual('echo foo');
+});
+
+test('read(); Undo paste and completion', async () => {
+  const harness = new TestHarness();
+
+  harness.addon.addTabCompleteHandler(() => ['status']);
+
+  const read = harness.addon.read('$ ');
+
+  harness.type('git st');
+  harness.press('Tab');
+  await harness.settle();
+  harness.press('Ctrl+_', '!', 'Enter');
+
+  expect(await read).toEqual('git st!');
+
+  const paste = harness.addon.read('$ ');
+
+  harness.type('x ');
+  harness.paste('echo a b');
+  harness.press('Ctrl+_', 'Enter');
+
+  expect(await paste).toEqual('x');
+});
+
+test('read(); Undo reset', async () => {
+  const harness = new TestHarness();
+
+  harness.addon.read('$ ');
+  harness.type('ls');
+  harness.press('Enter');
+
+  const read = harness.addon.read('$ ');
+
+  harness.press('Ctrl+_');
+  harness.type('pwd');
+  harness.press('Ctrl+_', 'Ctrl+_', 'x', 'Enter');
+
+  expect(await read).toEqual('x');
+});
+
+test('read(); Undo Vi', async () => {
+  const harness = new TestHarness({ keymap: 'vi' });
+  const read = harness.addon.read('$ ');
+
+  harness.type('foo bar');
+  harness.press('Escape', 'u', 'u', 'Ctrl+R', 'A', '!', 'Enter');
+
+  expect(await read).toEqual('foo !');
+});
+
+test('activate(); Bracketed paste mode', () => {
+  const harness = new TestHarness();
+
+  expect(harness.terminal.written).toEqual(['\x1B[?2004h']);
+
+  harness.addon.dispose();
+
+  expect(harness.terminal.written).toEqual(['\x1B[?2004h', '\x1B[?2004l']);
+  expect(new TestHarness({ bracketedPaste: false }).terminal.written).toEqual(
+    []
+  );
+});
+
+test('read(); Paste, insert', async () => {
+  const harness = new TestHarness();
+  const read = harness.addon.read('$ ', '> ');
+
+  harness.type('echo ');
+  harness.terminal.send('\x1B[200~a\r\nb\tc\x1B[31m');
+  harness.terminal.send('d\x1B[201~!');
+
+  expect(harness.lines).toEqual(['$ echo a', '> b    cd!']);
+
+  harness.press('Enter');
+
+  expect(await read).toEqual('echo a\nb    cd!');
+});
+
+test('read(); Paste, run', async () => {
+  const harness = new TestHarness({ pastePolicy: 'run' });
+  const read = harness.addon.read('$ ', '> ');
+
+  harness.paste('ls &&\npwd\necho a\necho');
+
+  expect(await read).toEqual('ls &&\npwd');
+  expect(await harness.addon.read('$ ')).toEqual('echo a');
+
+  const last = harness.addon.read('$ ');
+
+  harness.type(' b');
+  harness.press('Enter');
+
+  expect(await last).toEqual('echo b');
+});
+
+test('read(); Paste, confirm', async () => {
+  const harness = new TestHarness({ pastePolicy: 'confirm' });
+  const read = harness.addon.read('$ ');
+
+  harness.paste('ls\npwd');
+
+  expect(harness.lines).toEqual(['$', 'Run 2 pasted lines? (y/n)']);
+
+  harness.press('n');
+  harness.paste('ls');
+  harness.press('Enter');
+
+  expect(await read).toEqual('ls');
+
+  const confirmed = harness.addon.read('$ ');
+
+  harness.paste('ls\npwd');
+  harness.press('y');
+
+  expect(await confirmed).toEqual('ls');
+
+  // Last line is inserted w/o running it.
+  const last = harness.addon.read('$ ');
+
+  harness.press('Enter');
+
+  expect(await last).toEqual('pwd');
+});
+
+test('read(); Paste, confirm aborted', async () => {
+  const harness = new TestHarness({ pastePolicy: 'confirm' });
+  const read = harness.addon.read('$ ');
+
+  harness.type('x');
+  harness.paste('ls\npwd');
+  harness.addon.readAbort();
+
+  await expect(read).rejects.toEqual('READINT');
+
+  // Pasted lines aren't run by the next read prompt.
+  const next = harness.addon.read('$ ');
+
+  harness.press('y', 'Enter');
+
+  expect(await next).toEqual('y');
+  expect(harness.lines).toEqual(['$ x', 'Run 2 pasted lines? (y/n)', '$ y']);
+});
+
+test('read(); Typed input w/ bracketed paste', async () => {
+  const harness = new TestHarness();
+  const read = harness.addon.read('$ ');
+
+  // Input sent at once is still handled one key at a time.
+  harness.terminal.send('ls\x1B[D\x1B[D');
+  harness.terminal.send('x\r');
+
+  expect(await read).toEqual('xls');
+});
+
+test('read(); Rendering benchmark', async () => {
+  const harness = new TestHarness();
+  const read = harness.addon.read('$ ', '> ');
+  const lines = Array.from({ length: 100 }, (e, i) => `echo ${i} `.padEnd(60));
+
+  harness.paste(lines.join('\n'));
+
+  // Each key press is rendered w/ a single write of the changes only.
+  const count = harness.terminal.written.length;
+  const start = Date.now();
+
+  for (let i = 0; i < 500; i++) {
+    harness.press('a');
+  }
+
+  harness.press('Ctrl+A');
+
+  const written = harness.terminal.written.slice(count);
+
+  expect(written.length).toEqual(501);
+  expect(written.join('').length).toBeLessThan(500 * 4);
+  expect(written.pop()).toEqual('\x1B[106A');
+  expect(Date.now() - start).toBeLessThan(5000);
+
+  harness.press('Ctrl+E', 'Enter');
+
+  expect(await read).toEqual(lines.join('\n') + 'a'.repeat(500));
+});
+
+test('read(); Screen, soft-wrap and continuation', async () => {
+  const harness = new TestHarness({}, 10, 5);
+  const read = harness.addon.read('$ ', '> ');
+
+  harness.type('echo "abcdefgh');
+  harness.press('Enter');
+  harness.type('x"');
+  harness.press('Left', 'Left');
+
+  expect(harness.lines).toEqual(['$ echo "ab', 'cdefgh', '> x"']);
+  expect(harness.terminal.cursor).toEqual({ col: 2, row: 2 });
+  expect(harness.cursor).toEqual(15);
+
+  harness.press('Enter');
+
+  expect(await read).toEqual('echo "abcdefgh\nx"');
+});
+
+test('read(); Screen, interrupt and resize', () => {
+  const harness = new TestHarness({}, 10, 5);
+
+  harness.addon.read('$ ');
+  harness.type('ls -la');
+  harness.press('Ctrl+C');
+  harness.type('echo abcdef');
+
+  expect(harness.lines).toEqual(['$ ls -la^C', '$ echo abc', 'def']);
+
+  harness.terminal.resize(20, 5);
+
+  expect(harness.lines).toEqual(['$ ls -la^C', '$ echo abcdef']);
+  expect(harness.terminal.cursor).toEqual({ col: 13, row: 1 });
+
+  harness.terminal.resize(8, 5);
+
+  expect(harness.lines).toEqual(['$ ls -la', '^C', '$ echo a', 'bcdef']);
+  expect(harness.terminal.cursor).toEqual({ col: 5, row: 3 });
+});
@@ -0,0 +1,30 @@
+import { getMatchScore } from '../src/Matching';
+
+test('getMatchScore(); Prefix', () => {
+  expect(getMatchScore('commit', 'com')).toEqual(0);
+  expect(getMatchScore('commit', '')).toEqual(0);
+  expect(getMatchScore('Commit', 'com')).toEqual(null);
+  expect(getMatchScore('commit', 'mit')).toEqual(null);
+});
+
+test('getMatchScore(); Ignore case', () => {
+  expect(getMatchScore('README', 'read', 'ignorecase')).toEqual(0);
+  expect(getMatchScore('readme', 'read', 'ignorecase')).toEqual(1);
+  expect(getMatchScore('README', 'me', 'ignorecase')).toEqual(null);
+});
+
+test('getMatchScore(); Substring', () => {
+  expect(getMatchScore('commit', 'com', 'substring')).toEqual(-0);
+  expect(getMatchScore('commit', 'MIT', 'substring')).toEqual(-3);
+  expect(getMatchScore('commit', 'tim', 'substring')).toEqual(null);
+});
+
+test('getMatchScore(); Fuzzy', () => {
+  const score = (e: string) => getMatchScore(e, 'co', 'fuzzy') as number;
+
+  expect(getMatchScore('checkout', 'cko', 'fuzzy')).not.toEqual(null);
+  expect(getMatchScore('checkout', 'okc', 'fuzzy')).toEqual(null);
+  expect(score('commit')).toBeGreaterThan(score('checkout'));
+  expect(score('git-commit')).toBeGreaterThan(score('checkout'));
+  expect(score('commit')).toBeGreaterThan(score('git-commit'));
+});
@@ -0,0 +1,109 @@
+import { Renderer } from '../src/Renderer';
+
+/**
+ * Create renderer w/ a function to get and clear written data.
+ */
+function createRenderer() {
+  const writes: string[] = [];
+  const renderer = new Renderer((data) => writes.push(data));
+
+  return {
+    renderer,
+    written: () => writes.splice(0).join('|'),
+  };
+}
+
+const frame = (output: string, col: number, row = 0, rows: string[] = []) => {
+  return { cursor: { col, row }, output, rows };
+};
+
+test('render(); Append', () => {
+  const { renderer, written } = createRenderer();
+
+  renderer.render(frame('$ ', 2), 80);
+  renderer.render(frame('$ l', 3), 80);
+  renderer.render(frame('$ ls', 4), 80);
+
+  expect(written()).toEqual('$ |l|s');
+});
+
+test('render(); Cursor movement', () => {
+  const { renderer, written } = createRenderer();
+
+  renderer.render(frame('$ echo a\n> b', 3, 1), 80);
+  written();
+
+  renderer.render(frame('$ echo a\n> b', 2, 0), 80);
+  renderer.render(frame('$ echo a\n> b', 3, 0), 80);
+  renderer.render(frame('$ echo a\n> b', 3, 0), 80);
+
+  expect(written()).toEqual('\x1B[A\x1B[D|\x1B[C');
+});
+
+test('render(); Insert and delete', () => {
+  const { renderer, written } = createRenderer();
+
+  renderer.render(frame('$ ls', 3), 80);
+  written();
+
+  renderer.render(frame('$ lxs', 4), 80);
+  renderer.render(frame('$ lx', 4), 80);
+  renderer.render(frame('$ ', 2), 80);
+
+  expect(written()).toEqual('\x1B[Jxs\x1B[D|\x1B[J|\x1B[2D\x1B[J');
+});
+
+test('render(); Grapheme clusters', () => {
+  const { renderer, written } = createRenderer();
+
+  renderer.render(frame('$ e', 3), 80);
+  renderer.render(frame('$ e\u0301', 3), 80);
+
+  expect(written()).toEqual('$ e|\x1B[D\x1B[Je\u0301');
+});
+
+test('render(); Soft-wrap', () => {
+  const { renderer, written } = createRenderer();
+
+  // Output ending at the last column is forced to wrap, and its last
+  // grapheme cluster is rewritten when continued.
+  renderer.render(frame('$ ab', 0, 1), 4);
+  renderer.render(frame('$ abc', 1, 1), 4);
+
+  expect(written()).toEqual('$ ab \r\x1B[K|\x1B[A\x1B[3C\x1B[Jbc');
+});
+
+test('render(); Styles', () => {
+  const { renderer, written } = createRenderer();
+
+  renderer.render(frame('$ \x1B[32mls\x1B[39m', 4), 80);
+  written();
+
+  renderer.render(frame('$ \x1B[32mlsx\x1B[39m', 5), 80);
+
+  expect(written()).toEqual('\x1B[J\x1B[0m\x1B[32mx\x1B[39m');
+});
+
+test('render(); Rows', () => {
+  const { renderer, written } = createRenderer();
+
+  renderer.render(frame('$ a', 3, 0, ['b', 'c']), 80);
+  renderer.render(frame('$ a', 3, 0, ['b', 'd']), 80);
+  renderer.render(frame('$ a', 3), 80);
+
+  expect(written()).toEqual(
+    '$ a\r\nb\r\nc\r\x1B[2A\x1B[3C|\x1B[2B\x1B[3D\x1B[Jd\r\x1B[2A\x1B[3C|\x1B[J'
+  );
+});
+
+test('clear() and reset()', () => {
+  const { renderer, written } = createRenderer();
+
+  renderer.render(frame('$ a\n> b', 3, 1), 80);
+  renderer.clear();
+  renderer.render(frame('$ a', 3), 80);
+  renderer.reset();
+  renderer.render(frame('$ a', 3), 80);
+
+  expect(written()).toEqual('$ a\r\n> b|\x1B[1F\x1B[J|$ a|$ a');
+});
@@ -0,0 +1,111 @@
+import { parseShell } from '../src/ShellParser';
+
+const getReason = (input: string) => parseShell(input).reason;
+const getValues = (input: string) => {
+  return parseShell(input).tokens.map((e) => e.value);
+};
+
+test('parseShell()', () => {
+  expect(parseShell(`ls -la && echo "a b"`)).toEqual({
+    complete: true,
+    reason: null,
+    tokens: [
+      { end: 2, operator: false, quote: null, start: 0, value: 'ls' },
+      { end: 6, operator: false, quote: null, start: 3, value: '-la' },
+      { end: 9, operator: true, quote: null, start: 7, value: '&&' },
+      { end: 14, operator: false, quote: null, start: 10, value: 'echo' },
+      { end: 20, operator: false, quote: null, start: 15, value: 'a b' },
+    ],
+  });
+  expect(parseShell(`echo 'a b`).tokens[1]).toEqual({
+    end: 9,
+    operator: false,
+    quote: "'",
+    start: 5,
+    value: 'a b',
+  });
+});
+
+test('parseShell(); Quotes', () => {
+  expect(getReason(`echo "a \\" b"`)).toEqual(null);
+  expect(getReason(`echo "a \\"`)).toEqual('quote');
+  expect(getReason(`echo 'a \\'`)).toEqual(null);
+  expect(getReason(`echo "it's"`)).toEqual(null);
+  expect(getReason(`echo 'say "hi'`)).toEqual(null);
+  expect(getReason(`echo "a && b"`)).toEqual(null);
+  expect(getReason(`echo 'a |'`)).toEqual(null);
+  expect(getReason(`echo \\"`)).toEqual(null);
+  expect(getValues(`a\\ b "c\\"d" 'e\\f' "g\\h"`)).toEqual([
+    'a b',
+    'c"d',
+    'e\\f',
+    'g\\h',
+  ]);
+});
+
+test('parseShell(); Substitutions', () => {
+  expect(getReason('echo $(date')).toEqual('paren');
+  expect(getReason('echo $(date)')).toEqual(null);
+  expect(getReason('echo $(echo ")")')).toEqual(null);
+  expect(getReason('echo "$(echo "a b"')).toEqual('paren');
+  expect(getReason('echo $((1 + (2 * 3))')).toEqual('paren');
+  expect(getReason('echo `date')).toEqual('quote');
+  expect(getReason('echo `date`')).toEqual(null);
+  expect(getReason('echo ${HOME')).toEqual('brace');
+  expect(getReason('echo ${HOME}')).toEqual(null);
+  expect(getValues('echo $(a | b) "x $(c "d")"')).toEqual([
+    'echo',
+    '$(a | b)',
+    'x $(c "d")',
+  ]);
+});
+
+test('parseShell(); Groups', () => {
+  expect(getReason('( cd foo')).toEqual('paren');
+  expect(getReason('(cd foo && ls)')).toEqual(null);
+  expect(getReason('{ echo a; echo b')).toEqual('brace');
+  expect(getReason('{ echo a; echo b; }')).toEqual(null);
+  expect(getReason('echo {a,b}')).toEqual(null);
+  expect(getValues('(cd foo)')).toEqual(['(', 'cd', 'foo', ')']);
+});
+
+test('parseShell(); Heredocs', () => {
+  expect(getReason('cat <<EOF')).toEqual('heredoc');
+  expect(getReason('cat <<EOF\nfoo')).toEqual('heredoc');
+  expect(getReason('cat <<EOF\nfoo\nEOF')).toEqual(null);
+  expect(getReason(`cat <<'EOF'\n$(foo\nEOF`)).toEqual(null);
+  expect(getReason('cat <<-EOF\n\tfoo\n\tEOF')).toEqual(null);
+  expect(getReason('cat <<EOF\n\tEOF')).toEqual('heredoc');
+  expect(getReason('cat <<A <<B\nA\n')).toEqual('heredoc');
+  expect(getReason('cat <<A <<B\nA\nB')).toEqual(null);
+  expect(getReason('cat <<EOF && ls\nEOF')).toEqual(null);
+});
+
+test('parseShell(); Operators', () => {
+  expect(getReason('ls &&')).toEqual('operator');
+  expect(getReason('ls ||  ')).toEqual('operator');
+  expect(getReason('ls |')).toEqual('operator');
+  expect(getReason('ls |&')).toEqual('operator');
+  expect(getReason('ls ;')).toEqual(null);
+  expect(getReason('ls &')).toEqual(null);
+  expect(getReason('ls # &&')).toEqual(null);
+  expect(getReason('ls a#b &&')).toEqual('operator');
+  expect(getValues('a&&b||c;d|e')).toEqual([
+    'a',
+    '&&',
+    'b',
+    '||',
+    'c',
+    ';',
+    'd',
+    '|',
+    'e',
+  ]);
+});
+
+test('parseShell(); Backslashes', () => {
+  expect(getReason('ls \\')).toEqual('backslash');
+  expect(getReason('ls \\\\')).toEqual(null);
+  expect(getReason('ls \\\n-la')).toEqual(null);
+  expect(getValues('ls \\\n-la')).toEqual(['ls', '-la']);
+});
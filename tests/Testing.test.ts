@@ -0,0 +1,125 @@
+import { FakeTerminal, TestHarness } from '../src/Testing';
+
+test('FakeTerminal; Write', () => {
+  const terminal = new FakeTerminal(10, 3);
+
+  terminal.write('\x1B[32mecho\x1B[39m a\r\n');
+  terminal.write('中文 ab\x1B[2D\x1B[K!');
+
+  expect(terminal.lines).toEqual(['echo a', '中文 !']);
+  expect(terminal.cursor).toEqual({ col: 6, row: 1 });
+  expect(terminal.written).toEqual([
+    '\x1B[32mecho\x1B[39m a\r\n',
+    '中文 ab\x1B[2D\x1B[K!',
+  ]);
+});
+
+test('FakeTerminal; Soft-wrap and scroll', () => {
+  const terminal = new FakeTerminal(4, 3);
+
+  terminal.write('abcd');
+
+  expect(terminal.cursor).toEqual({ col: 3, row: 0 });
+
+  terminal.write('efg 中\r\nh');
+
+  expect(terminal.lines).toEqual(['efg', '中', 'h']);
+  expect(terminal.cursor).toEqual({ col: 1, row: 2 });
+});
+
+test('FakeTerminal; Soft-wrap w/ styles', () => {
+  const terminal = new FakeTerminal(4, 3);
+
+  // Styles after the last column keep the pending wrap.
+  terminal.write('ab\x1B[2mcd\x1B[22m \r\x1B[K\x1B[A\x1B[3C');
+
+  expect(terminal.lines).toEqual(['abcd']);
+  expect(terminal.cursor).toEqual({ col: 3, row: 0 });
+
+  terminal.write('\x1B[1me\x1B[0mf');
+
+  expect(terminal.lines).toEqual(['abce', 'f']);
+  expect(terminal.cursor).toEqual({ col: 1, row: 1 });
+});
+
+test('FakeTerminal; Cursor movement and erase', () => {
+  const terminal = new FakeTerminal(10, 4);
+
+  terminal.write('a\r\nb\r\nc\x1B[2A\x1B[3C');
+
+  expect(terminal.cursor).toEqual({ col: 4, row: 0 });
+
+  terminal.write('\x1B[B\x1B[2D\x1B[J');
+
+  expect(terminal.lines).toEqual(['a', 'b']);
+
+  terminal.write('\x1B[1F\x1B[J');
+
+  expect(terminal.lines).toEqual([]);
+  expect(terminal.cursor).toEqual({ col: 0, row: 0 });
+});
+
+test('FakeTerminal; Resize', () => {
+  const terminal = new FakeTerminal(4, 4);
+  const listener = jest.fn();
+
+  terminal.onResize(listener);
+  terminal.write('$ abcde\r\nf');
+  terminal.resize(8, 2);
+
+  expect(terminal.lines).toEqual(['$ abcde', 'f']);
+  expect(terminal.cursor).toEqual({ col: 1, row: 1 });
+  expect(listener).toHaveBeenCalledWith({ cols: 8, rows: 2 });
+});
+
+test('FakeTerminal; Input data', () => {
+  const terminal = new FakeTerminal();
+  const listener = jest.fn();
+  const disposable = terminal.onData(listener);
+
+  terminal.send('a');
+  disposable.dispose();
+  terminal.send('b');
+
+  expect(listener).toHaveBeenCalledTimes(1);
+  expect(listener).toHaveBeenCalledWith('a');
+});
+
+test('TestHarness; Keys and text', async () => {
+  const harness = new TestHarness();
+  const read = harness.addon.read('$ ');
+
+  harness.type('echo 中文');
+  harness.press('Ctrl+A', 'Alt+F', 'Right');
+
+  expect(harness.input).toEqual('echo 中文');
+  expect(harness.cursor).toEqual(6);
+  expect(harness.terminal.cursor).toEqual({ col: 9, row: 0 });
+
+  harness.press('Ctrl+X Ctrl+U');
+
+  expect(harness.input).toEqual('echo ');
+
+  harness.paste('a\nb');
+
+  expect(harness.lines).toEqual(['$ echo a', '> b']);
+
+  harness.press('Enter');
+
+  expect(await read).toEqual('echo a\nb');
+});
+
+test('TestHarness; Settle', async () => {
+  const harness = new TestHarness();
+
+  harness.addon.addTabCompleteHandler(async () => ['status']);
+  harness.addon.read('$ ');
+  harness.type('git st');
+  harness.press('Tab');
+
+  expect(harness.input).toEqual('git st');
+
+  await harness.settle();
+
+  expect(harness.input).toEqual('git status ');
+});
@@ -0,0 +1,72 @@
+import { UndoStack } from '../src/UndoStack';
+
+const state = (input: string) => ({ cursor: input.length, input });
+
+test('push() and undo()', () => {
+  const stack = new UndoStack();
+
+  stack.begin('a');
+  stack.push(state(''));
+  stack.push(state('f'));
+  stack.begin(null);
+  stack.push(state('fo'));
+
+  expect(stack.undo(state('foo'))).toEqual(state('fo'));
+  expect(stack.undo(state('fo'))).toEqual(state(''));
+  expect(stack.undo(state(''))).toBeUndefined();
+});
+
+test('begin(); Groups', () => {
+  const stack = new UndoStack();
+
+  stack.begin('a');
+  stack.push(state(''));
+  stack.begin('a');
+  stack.push(state('x'));
+  stack.begin('b');
+  stack.push(state('xy'));
+  stack.begin(null);
+  stack.push(state('xyz'));
+  stack.begin(null);
+  stack.push(state('xyz!'));
+
+  expect(stack.items).toEqual([
+    state(''),
+    state('xy'),
+    state('xyz'),
+    state('xyz!'),
+  ]);
+});
+
+test('redo()', () => {
+  const stack = new UndoStack();
+
+  stack.begin(null);
+  stack.push(state('a'));
+  stack.begin(null);
+  stack.push(state('ab'));
+
+  expect(stack.undo(state('abc'))).toEqual(state('ab'));
+  expect(stack.undo(state('ab'))).toEqual(state('a'));
+  expect(stack.redo(state('a'))).toEqual(state('ab'));
+  expect(stack.redo(state('ab'))).toEqual(state('abc'));
+  expect(stack.redo(state('abc'))).toBeUndefined();
+
+  // New edits discard undone states.
+  stack.undo(state('abc'));
+  stack.begin(null);
+  stack.push(state('ab'));
+
+  expect(stack.redo(state('abd'))).toBeUndefined();
+});
+
+test('reset()', () => {
+  const stack = new UndoStack();
+
+  stack.begin('a');
+  stack.push(state('a'));
+  stack.reset();
+
+  expect(stack.items).toEqual([]);
+  expect(stack.undo(state('ab'))).toBeUndefined();
+});
@@ -0,0 +1,81 @@
+import {
+  getActiveStyle,
+  getCharWidth,
+  getGraphemeBoundary,
+  getGraphemeWidth,
+  getGraphemes,
+  getStringWidth,
+  getTruncated,
+  stripAnsi,
+} from '../src/Unicode';
+
+test('getCharWidth()', () => {
+  expect(getCharWidth('a'.codePointAt(0)!)).toEqual(1);
+  expect(getCharWidth('\x07'.codePointAt(0)!)).toEqual(0);
+  expect(getCharWidth('\u0301'.codePointAt(0)!)).toEqual(0);
+  expect(getCharWidth('\u200D'.codePointAt(0)!)).toEqual(0);
+  expect(getCharWidth('漢'.codePointAt(0)!)).toEqual(2);
+  expect(getCharWidth('한'.codePointAt(0)!)).toEqual(2);
+  expect(getCharWidth('Ａ'.codePointAt(0)!)).toEqual(2);
+  expect(getCharWidth('😀'.codePointAt(0)!)).toEqual(2);
+});
+
+test('getGraphemes()', () => {
+  expect(getGraphemes('abc')).toEqual(['a', 'b', 'c']);
+  expect(getGraphemes('e\u0301x')).toEqual(['e\u0301', 'x']);
+  expect(getGraphemes('😀a')).toEqual(['😀', 'a']);
+  expect(getGraphemes('👨\u200D👩\u200D👧!')).toEqual([
+    '👨\u200D👩\u200D👧',
+    '!',
+  ]);
+  expect(getGraphemes('🇯🇵🇫🇷')).toEqual(['🇯🇵', '🇫🇷']);
+});
+
+test('getGraphemeWidth()', () => {
+  expect(getGraphemeWidth('e\u0301')).toEqual(1);
+  expect(getGraphemeWidth('👨\u200D👩\u200D👧')).toEqual(2);
+  expect(getGraphemeWidth('👍🏽')).toEqual(2);
+  expect(getGraphemeWidth('🇯🇵')).toEqual(2);
+  expect(getGraphemeWidth('❤\uFE0F')).toEqual(2);
+});
+
+test('getGraphemeBoundary(); Right-to-left', () => {
+  expect(getGraphemeBoundary('a😀b', 3, true)).toEqual(1);
+  expect(getGraphemeBoundary('a😀b', 1, true)).toEqual(0);
+  expect(getGraphemeBoundary('a😀b', 0, true)).toEqual(0);
+  expect(getGraphemeBoundary('ae\u0301', 3, true)).toEqual(1);
+});
+
+test('getGraphemeBoundary(); Left-to-right', () => {
+  expect(getGraphemeBoundary('a😀b', 1, false)).toEqual(3);
+  expect(getGraphemeBoundary('a😀b', 3, false)).toEqual(4);
+  expect(getGraphemeBoundary('a😀b', 4, false)).toEqual(4);
+  expect(getGraphemeBoundary('ae\u0301', 1, false)).toEqual(3);
+});
+
+test('getStringWidth()', () => {
+  expect(getStringWidth('')).toEqual(0);
+  expect(getStringWidth('abc')).toEqual(3);
+  expect(getStringWidth('日本語')).toEqual(6);
+  expect(getStringWidth('cafe\u0301')).toEqual(4);
+  expect(getStringWidth('\u001b[31mred\u001b[0m 😀')).toEqual(6);
+});
+
+test('getTruncated()', () => {
+  expect(getTruncated('abcdef', 6)).toEqual('abcdef');
+  expect(getTruncated('abcdef', 4)).toEqual('abc\u2026');
+  expect(getTruncated('\u65e5\u672c\u8a9e', 4)).toEqual('\u65e5\u2026');
+  expect(getTruncated('abcdef', 0)).toEqual('');
+});
+
+test('getActiveStyle()', () => {
+  expect(getActiveStyle('ls')).toEqual('');
+  expect(getActiveStyle('\x1B[32mls\x1B[0m -\x1B[1m\x1B[36ml')).toEqual(
+    '\x1B[1m\x1B[36m'
+  );
+  expect(getActiveStyle('\x1B[33m"a\x1B[m')).toEqual('');
+});
+
+test('stripAnsi()', () => {
+  expect(stripAnsi('\u001b[1;32m$\u001b[0m ')).toEqual('$ ');
+});
@@ -1,12 +1,25 @@
 import {
+  TabCompleteContext,
   getColRow,
   getLineCount,
+  getEscaped,
+  getNormalizedInput,
+  getPastedText,
+  getTabCompleted,
+  getTabContext,
+  getTabInsert,
   getTabShared,
+  getTabSuffix,
   getTabSuggestions,
   getWord,
+  getWordEnd,
   hasIncompleteChars,
 } from '../src/Utils';
 
+const getTabLabels = async (...args: Parameters<typeof getTabSuggestions>) => {
+  return (await getTabSuggestions(...args)).map((e) => e.label);
+};
+
 test('getWord(); Right-to-left', () => {
   expect(getWord('foo bar baz', 5, true)).toEqual(4);
   expect(getWord('foo bar baz', 2, true)).toEqual(0);
@@ -19,6 +32,13 @@ test('getWord(); Left-to-right', () => {
   expect(getWord('foo bar baz', 11, false)).toEqual(11);
 });
 
+test('getWordEnd()', () => {
+  expect(getWordEnd('foo bar baz', 0)).toEqual(3);
+  expect(getWordEnd('foo bar baz', 3)).toEqual(7);
+  expect(getWordEnd('foo bar baz', 5)).toEqual(7);
+  expect(getWordEnd('foo bar baz', 11)).toEqual(11);
+});
+
 test('getColRow()', () => {
   const colSize = 25;
 
@@ -82,6 +102,17 @@ test('getColRow()', () => {
   });
 });
 
+test('getColRow(); Wide characters', () => {
+  expect(getColRow('日本語', 2, 10)).toEqual({ col: 4, row: 0 });
+  expect(getColRow('ab😀cd', 4, 10)).toEqual({ col: 4, row: 0 });
+  expect(getColRow('cafe\u0301!', 6, 10)).toEqual({ col: 5, row: 0 });
+  expect(getColRow('\u001b[32m$\u001b[0m 漢字', 3, 10)).toEqual({
+    col: 4,
+    row: 0,
+  });
+  expect(getColRow('abcd漢字', 5, 5)).toEqual({ col: 2, row: 1 });
+});
+
 test('getLineCount()', () => {
   expect(getLineCount('abcdef', 10)).toBe(1);
   expect(getLineCount('abcdef', 6)).toBe(2);
@@ -129,7 +160,18 @@ test('isIncompleteInput()', () => {
   expect(hasIncompleteChars(`some '   `)).toEqual(true);
 });
 
-test('getTabSuggestions()', () => {
+test('isIncompleteInput(); Shell grammar', () => {
+  expect(hasIncompleteChars(`echo "a \\" b"`)).toEqual(false);
+  expect(hasIncompleteChars(`echo "it's"`)).toEqual(false);
+  expect(hasIncompleteChars(`echo "a &&"`)).toEqual(false);
+  expect(hasIncompleteChars(`echo $(date`)).toEqual(true);
+  expect(hasIncompleteChars('echo `date')).toEqual(true);
+  expect(hasIncompleteChars(`{ echo a;`)).toEqual(true);
+  expect(hasIncompleteChars(`cat <<EOF\nfoo`)).toEqual(true);
+  expect(hasIncompleteChars(`cat <<EOF\nfoo\nEOF`)).toEqual(false);
+});
+
+test('getTabSuggestions()', async () => {
   const all = () => {
     return ['a', 'ab', 'abc'];
   };
@@ -159,7 +201,7 @@ test('getTabSuggestions()', () => {
     },
   ];
 
-  expect(getTabSuggestions(handlers, '')).toEqual([
+  expect(await getTabLabels(handlers, '')).toEqual([
     'a',
     'ab',
     'abc',
@@ -167,9 +209,9 @@ test('getTabSuggestions()', () => {
     'cd',
     'cde',
   ]);
-  expect(getTabSuggestions(handlers, 'a')).toEqual(['a', 'ab', 'abc']);
-  expect(getTabSuggestions(handlers, 'ab')).toEqual(['ab', 'abc']);
-  expect(getTabSuggestions(handlers, 'ab ')).toEqual([
+  expect(await getTabLabels(handlers, 'a')).toEqual(['a', 'ab', 'abc']);
+  expect(await getTabLabels(handlers, 'ab')).toEqual(['ab', 'abc']);
+  expect(await getTabLabels(handlers, 'ab ')).toEqual([
     'a',
     'ab',
     'abc',
@@ -180,7 +222,161 @@ test('getTabSuggestions()', () => {
     'cd',
     'cde',
   ]);
-  expect(getTabSuggestions(handlers, 'ab b')).toEqual(['b', 'bc', 'bcd']);
+  expect(await getTabLabels(handlers, 'ab b')).toEqual(['b', 'bc', 'bcd']);
+});
+
+test('getTabSuggestions(); Context', async () => {
+  const subcommand = (index: number, context: TabCompleteContext) => {
+    if (index === 1 && context.args[0] === 'git') return ['add', 'commit'];
+
+    return [];
+  };
+
+  const handlers = [{ args: [], callback: subcommand }];
+
+  expect(await getTabLabels(handlers, 'git ')).toEqual(['add', 'commit']);
+  expect(await getTabLabels(handlers, 'git c')).toEqual(['commit']);
+  expect(await getTabLabels(handlers, 'ls ')).toEqual([]);
+  expect(await getTabLabels(handlers, 'ls | git a')).toEqual(['add']);
+  expect(await getTabLabels(handlers, 'git a -v', 5)).toEqual(['add']);
+});
+
+test('getTabSuggestions(); Items', async () => {
+  const items = () => {
+    return [
+      { label: 'src', kind: 'dir' },
+      { label: 'README', description: 'Read me', insertText: 'README.md' },
+      'run',
+    ];
+  };
+
+  const handlers = [{ args: [], callback: items }];
+
+  expect(await getTabSuggestions(handlers, 'r')).toEqual([{ label: 'run' }]);
+  expect(await getTabSuggestions(handlers, 'README.')).toEqual([
+    { label: 'README', description: 'Read me', insertText: 'README.md' },
+  ]);
+  expect(await getTabLabels(handlers, '')).toEqual(['README', 'run', 'src']);
+});
+
+test('getTabSuggestions(); Concurrent', async () => {
+  let release: Function = () => {};
+
+  const first = () => new Promise((resolve) => (release = resolve));
+  const second = () => {
+    release(['a']);
+
+    return ['b'];
+  };
+
+  const handlers = [
+    { args: [], callback: first },
+    { args: [], callback: second },
+  ];
+
+  expect(await getTabLabels(handlers, '')).toEqual(['a', 'b']);
+});
+
+test('getTabSuggestions(); Timeout and errors', async () => {
+  const error = jest.fn();
+  const controller = new AbortController();
+  const signals: AbortSignal[] = [];
+
+  const handlers = [
+    {
+      args: [],
+      callback: (index: number, context: TabCompleteContext) => {
+        signals.push(context.signal);
+
+        return new Promise(() => {});
+      },
+    },
+    { args: [], callback: () => Promise.reject(new Error('Failed')) },
+    { args: [], callback: () => ['a'] },
+  ];
+
+  expect(
+    await getTabLabels(handlers, '', 0, controller.signal, 10, 'prefix', error)
+  ).toEqual(['a']);
+  expect(error).toHaveBeenCalledTimes(2);
+
+  // Timed out handlers are aborted.
+  expect(signals[0].aborted).toEqual(true);
+  expect(controller.signal.aborted).toEqual(false);
+
+  // Errors aren't reported once cancelled.
+  controller.abort();
+
+  expect(
+    await getTabLabels(handlers, '', 0, controller.signal, 10, 'prefix', error)
+  ).toEqual(['a']);
+  expect(error).toHaveBeenCalledTimes(2);
+  expect(signals[1].aborted).toEqual(true);
+});
+
+test('getTabInsert()', () => {
+  expect(getTabInsert({ label: 'foo' })).toEqual('foo');
+  expect(getTabInsert({ label: 'foo', insertText: 'foo()' })).toEqual('foo()');
+});
+
+test('getTabSuffix()', () => {
+  expect(getTabSuffix({ label: 'foo' })).toEqual(' ');
+  expect(getTabSuffix({ label: 'foo', kind: 'dir' })).toEqual('/');
+  expect(getTabSuffix({ label: 'foo', suffix: '=' })).toEqual('=');
+  expect(getTabSuffix({ label: 'foo', kind: 'dir', noSpace: true })).toEqual(
+    ''
+  );
+});
+
+test('getTabContext()', () => {
+  const signal = new AbortController().signal;
+
+  expect(getTabContext('git com', 7, signal)).toEqual({
+    args: ['git', 'com'],
+    cursor: 7,
+    end: 7,
+    fragment: 'com',
+    index: 1,
+    input: 'git com',
+    quote: null,
+    signal,
+    start: 4,
+  });
+  expect(getTabContext('git  -v', 4, signal)).toMatchObject({
+    args: ['git', '', '-v'],
+    fragment: '',
+    index: 1,
+    start: 4,
+    end: 4,
+  });
+  expect(getTabContext('cat "my fi', 10, signal)).toMatchObject({
+    args: ['cat', 'my fi'],
+    fragment: 'my fi',
+    index: 1,
+    quote: '"',
+    start: 4,
+  });
+  expect(getTabContext('cd my\\ di', 9, signal)).toMatchObject({
+    args: ['cd', 'my di'],
+    fragment: 'my di',
+    index: 1,
+  });
+  expect(getTabContext('foo && bar ba', 13, signal)).toMatchObject({
+    args: ['bar', 'ba'],
+    fragment: 'ba',
+    index: 1,
+  });
+  expect(getTabContext('foo \\\nbar ba', 12, signal)).toMatchObject({
+    args: ['foo', 'bar', 'ba'],
+    index: 2,
+  });
+});
+
+test('getEscaped()', () => {
+  expect(getEscaped('my file')).toEqual('my\\ file');
+  expect(getEscaped('my file', '"')).toEqual('my file');
+  expect(getEscaped('say "hi"', '"')).toEqual('say \\"hi\\"');
+  expect(getEscaped("it's", "'")).toEqual("it'\\''s");
 });
 
 test('getSharedFragement()', () => {
@@ -192,3 +388,54 @@ test('getSharedFragement()', () => {
   expect(getTabShared('foo', ['foo-', 'foo-1'])).toEqual('foo-');
   expect(getTabShared('foo', ['foo-1', 'foo-'])).toEqual('foo-');
 });
+
+test('getSharedFragement(); Ignore case', () => {
+  expect(getTabShared('re', ['README', 'readme.txt'])).toEqual(null);
+  expect(getTabShared('re', ['README', 'readme.txt'], true)).toEqual('README');
+  expect(getTabShared('RE', ['readme', 'red'], true)).toEqual('re');
+  expect(getTabShared('a', [], true)).toEqual(null);
+});
+
+test('getTabSuggestions(); Fuzzy', async () => {
+  const handlers = [
+    { args: [], callback: () => ['checkout', 'commit', 'git-commit', 'push'] },
+  ];
+
+  expect(await getTabLabels(handlers, 'co', 2, undefined, 0, 'fuzzy')).toEqual([
+    'commit',
+    'git-commit',
+    'checkout',
+  ]);
+});
+
+test('getTabCompleted()', () => {
+  const signal = new AbortController().signal;
+
+  expect(getTabCompleted(getTabContext('ls fo', 5, signal), 'foo bar')).toEqual(
+    ['ls foo\\ bar', 11]
+  );
+  expect(
+    getTabCompleted(getTabContext('ls "fo', 6, signal), 'foo bar', ' ')
+  ).toEqual(['ls "foo bar" ', 13]);
+  expect(
+    getTabCompleted(getTabContext('ls re -l', 5, signal), 'README', ' ')
+  ).toEqual(['ls README -l', 9]);
+  expect(
+    getTabCompleted(getTabContext('cd sr', 5, signal), 'src', '/')
+  ).toEqual(['cd src/', 7]);
+  expect(
+    getTabCompleted(getTabContext('cd sr -P', 5, signal), 'src', '/')
+  ).toEqual(['cd src/ -P', 7]);
+});
+
+test('getNormalizedInput()', () => {
+  expect(getNormalizedInput('  ls -la \n')).toEqual('ls -la');
+  expect(getNormalizedInput('ls \\\n-la')).toEqual('ls -la');
+  expect(getNormalizedInput('ls\\\n\\\n -la')).toEqual('ls -la');
+  expect(getNormalizedInput('echo \\\\\nls')).toEqual('echo \\\\\nls');
+});
+
+test('getPastedText()', () => {
+  expect(getPastedText('a\r\nb\rc\nd')).toEqual('a\nb\nc\nd');
+  expect(getPastedText('\tif x:\x1B[31m y\x1B[0m\x07')).toEqual('    if x: y');
+});